@@ -2,112 +2,37 @@
  * Live LLM Integration Demo
  * 
  * Shows the SciVal LLM Data Layer being used by an actual AI assistant.
- * Demonstrates natural language → function calling → structured response.
+ * Demonstrates natural language → tool calling → structured response.
  * 
  * Run with: OPENAI_API_KEY=sk-... tsx examples/llm-demo.ts
  */
 
 import OpenAI from 'openai';
+import { createOpenAIAdapter } from '../src/models/openaiAdapter';
+import { runConversation } from '../src/orchestrator';
 
-const API_BASE = 'http://localhost:3000';
-
-interface Message {
-  role: 'system' | 'user' | 'assistant' | 'function';
-  content: string | null;
-  function_call?: any;
-  name?: string;
-}
-
-// Fetch function definitions from the API
-async function getFunctionDefinitions(): Promise<any[]> {
-  const response = await fetch(`${API_BASE}/api/functions`);
-  const data = await response.json();
-  return data.functions;
-}
-
-// Execute a function call against the API
-async function executeFunction(functionName: string, params: any): Promise<any> {
-  const response = await fetch(`${API_BASE}/api/query/${functionName}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(params)
+// Answer a question with the orchestration loop; tool calls run in-process
+async function askQuestion(userQuestion: string) {
+  const model = createOpenAIAdapter({
+    client: new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+    model: 'gpt-4o'
   });
   
-  const data = await response.json();
-  return data.result;
-}
-
-// Run conversation with LLM + function calling
-async function runConversation(userQuestion: string) {
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY
-  });
-  
-  console.log('\n🧠 Initializing LLM with SciVal function definitions...');
-  const functions = await getFunctionDefinitions();
-  console.log(`✅ Loaded ${functions.length} function definitions\n`);
-  
-  const messages: Message[] = [
-    {
-      role: 'system',
-      content: 'You are a research analytics assistant with access to the SciVal database. Use the provided functions to answer questions about authors, institutions, and journals.'
-    },
-    {
-      role: 'user',
-      content: userQuestion
-    }
-  ];
-  
   console.log(`❓ User question: "${userQuestion}"\n`);
   
-  let iteration = 0;
-  const maxIterations = 5;
+  const result = await runConversation(userQuestion, { model, maxIterations: 5 });
   
-  while (iteration < maxIterations) {
-    iteration++;
-    
-    // Call LLM
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4-0125-preview',
-      messages: messages as any,
-      functions: functions,
-      function_call: 'auto'
-    });
-    
-    const message = response.choices[0].message;
-    
-    // If no function call, we're done
-    if (!message.function_call) {
-      console.log(`\n💬 Assistant response:\n${message.content}\n`);
-      break;
-    }
-    
-    // Execute function call
-    const functionName = message.function_call.name;
-    const functionArgs = JSON.parse(message.function_call.arguments);
-    
-    console.log(`🔧 LLM called: ${functionName}(${JSON.stringify(functionArgs, null, 2)})`);
-    
-    const result = await executeFunction(functionName, functionArgs);
-    console.log(`📊 Result: ${JSON.stringify(result, null, 2)}\n`);
-    
-    // Add function call and result to conversation
-    messages.push({
-      role: 'assistant',
-      content: null,
-      function_call: message.function_call
-    });
-    
-    messages.push({
-      role: 'function',
-      name: functionName,
-      content: JSON.stringify(result)
-    });
+  for (const entry of result.transcript) {
+    console.log(`🔧 LLM called: ${entry.name}(${JSON.stringify(entry.arguments, null, 2)})`);
+    console.log(`📊 Result: ${JSON.stringify(entry.result ?? entry.error, null, 2)}\n`);
   }
   
-  if (iteration >= maxIterations) {
+  if (result.stopReason === 'completed') {
+    console.log(`\n💬 Assistant response:\n${result.answer}\n`);
+  } else {
     console.log('⚠️  Maximum iterations reached');
   }
+  console.log(`🧮 Tokens used: ${result.usage.inputTokens} in, ${result.usage.outputTokens} out`);
 }
 
 // Demo scenarios
@@ -136,7 +61,7 @@ async function demo() {
     console.log(`📌 Scenario: ${scenario.title}`);
     console.log('─'.repeat(80));
     
-    await runConversation(scenario.question);
+    await askQuestion(scenario.question);
     
     // Pause between scenarios
     await new Promise(resolve => setTimeout(resolve, 2000));
@@ -159,4 +84,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   demo().catch(console.error);
 }
 
-export { runConversation, getFunctionDefinitions, executeFunction };
+export { askQuestion };
@@ -7,34 +7,21 @@
  * Run with: tsx examples/simulated-demo.ts
  */
 
-const API_BASE = 'http://localhost:3000';
+import { BatchQuery, createScivalClient } from '../src/client';
+
+const client = createScivalClient({ baseUrl: 'http://localhost:3000' });
 
 interface Step {
   speaker: 'user' | 'assistant' | 'system';
-  content: string;
-  functionCall?: {
-    name: string;
-    params: any;
-  };
-  functionResult?: any;
-}
-
-async function queryAPI(functionName: string, params: any) {
-  const response = await fetch(`${API_BASE}/api/query/${functionName}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(params)
-  });
-  
-  const data = await response.json();
-  return data.result;
+  content?: string;
+  functionCall?: BatchQuery;
 }
 
 async function delay(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-function formatJSON(obj: any, indent = 2): string {
+function formatJSON(obj: unknown, indent = 2): string {
   return JSON.stringify(obj, null, indent)
     .split('\n')
     .map(line => '    ' + line)
@@ -52,7 +39,7 @@ async function simulateScenario(title: string, steps: Step[]) {
       await delay(500);
     } else if (step.speaker === 'assistant') {
       if (step.functionCall) {
-        console.log(`🤖 Assistant (thinking): I need to call ${step.functionCall.name}()`);
+        console.log(`🤖 Assistant (thinking): I need to call ${step.functionCall.functionName}()`);
         console.log(`📋 Parameters:`);
         console.log(formatJSON(step.functionCall.params));
         console.log();
@@ -61,7 +48,8 @@ async function simulateScenario(title: string, steps: Step[]) {
         
         // Execute the actual function
         console.log(`⚙️  Executing query...`);
-        const result = await queryAPI(step.functionCall.name, step.functionCall.params);
+        const { functionName, params } = step.functionCall;
+        const result = await client.query(functionName, params);
         
         console.log(`📊 Result:`);
         console.log(formatJSON(result));
@@ -94,7 +82,7 @@ async function demo() {
     {
       speaker: 'assistant',
       functionCall: {
-        name: 'getTopEntities',
+        functionName: 'getTopEntities',
         params: {
           entityType: 'author',
           metric: 'citations',
@@ -117,7 +105,7 @@ async function demo() {
     {
       speaker: 'assistant',
       functionCall: {
-        name: 'searchEntities',
+        functionName: 'searchEntities',
         params: {
           entityType: 'institution',
           query: 'MIT',
@@ -128,7 +116,7 @@ async function demo() {
     {
       speaker: 'assistant',
       functionCall: {
-        name: 'searchEntities',
+        functionName: 'searchEntities',
         params: {
           entityType: 'institution',
           query: 'Stanford',
@@ -139,7 +127,7 @@ async function demo() {
     {
       speaker: 'assistant',
       functionCall: {
-        name: 'compareEntities',
+        functionName: 'compareEntities',
         params: {
           entityType: 'institution',
           entityIdA: 'inst_001',
@@ -163,7 +151,7 @@ async function demo() {
     {
       speaker: 'assistant',
       functionCall: {
-        name: 'getTopEntities',
+        functionName: 'getTopEntities',
         params: {
           entityType: 'author',
           metric: 'citations',
@@ -174,7 +162,7 @@ async function demo() {
     {
       speaker: 'assistant',
       functionCall: {
-        name: 'getTrend',
+        functionName: 'getTrend',
         params: {
           entityId: 'auth_002',
           metric: 'publications',
@@ -198,7 +186,7 @@ async function demo() {
     {
       speaker: 'assistant',
       functionCall: {
-        name: 'getTopEntities',
+        functionName: 'getTopEntities',
         params: {
           entityType: 'author',
           metric: 'hIndex',
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateMetric, aggregateMetricSchema } from './aggregation';
+
+const aggregate = (params: unknown) => aggregateMetric(aggregateMetricSchema.parse(params));
+
+describe('aggregateMetric', () => {
+  it('should summarize a metric per group, ordered by the dimension', () => {
+    const result = aggregate({ entityType: 'institution', metric: 'fwci', groupBy: 'country' });
+    expect(result.metric).toBe('fieldWeightedCitationImpact');
+    expect(result.columns).toEqual(['country', 'count', 'mean', 'median', 'min', 'max']);
+    expect(result.rows.map(row => row.country)).toEqual(['Switzerland', 'United Kingdom', 'United States']);
+    expect(result.rows[1]).toMatchObject({ count: 2, min: 2.78, max: 3.12 });
+    expect(result.rows[1].mean).toBeCloseTo(2.95);
+  });
+
+  it('should return one row without groupBy, with percentiles', () => {
+    const result = aggregate({ entityType: 'author', metric: 'hIndex', statistics: ['count', 'sum'], percentiles: [25, 50] });
+    expect(result.groupBy).toBeNull();
+    expect(result.rows).toEqual([{ count: 3, sum: 131, p25: 36.5, p50: 42 }]);
+  });
+
+  it('should filter before grouping and sort by a statistic', () => {
+    const result = aggregate({
+      entityType: 'institution',
+      metric: 'collaborationRate',
+      groupBy: 'country',
+      statistics: ['max'],
+      filter: { metrics: [{ metric: 'fwci', operator: '>', value: 2.6 }] },
+      sortBy: 'max'
+    });
+    expect(result.rows).toEqual([{ country: 'United Kingdom', max: 0.74 }, { country: 'United States', max: 0.68 }]);
+  });
+
+  it('should leave statistics empty when no entities match', () => {
+    const result = aggregate({ entityType: 'journal', metric: 'sjr', filter: { publisher: 'Wiley' } });
+    expect(result.rows).toEqual([{ count: 0, mean: null, median: null, min: null, max: null }]);
+  });
+});
+
+describe('aggregateMetricSchema', () => {
+  it.each([
+    [{ entityType: 'journal', metric: 'sjr', groupBy: 'country' }, ['groupBy'], /journals can only be grouped by publisher/],
+    [{ entityType: 'author', metric: 'hIndex', sortBy: 'p90' }, ['sortBy'], /result columns: count, mean/],
+    [{ entityType: 'author', metric: 'sjr' }, ['metric'], /sjr/]
+  ])('should reject %j', (params, path, message) => {
+    const result = aggregateMetricSchema.safeParse(params);
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toContainEqual(expect.objectContaining({ path, message: expect.stringMatching(message) }));
+  });
+});
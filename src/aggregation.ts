@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { checkFilterForEntityType, entityAttributes, entityFilterSchema, matchesFilter, sortByKey, sortOrderSchema } from './listing';
+import { checkMetricsForEntityType, describeMetricsByEntityType, getMetricValue, metricNameSchema } from './metrics';
+import { percentile, SummaryStatistic, summaryStatisticNames, summaryStatistics } from './statistics';
+import { MetricAggregation, QueryCell } from './types';
+
+const defaultStatistics: SummaryStatistic[] = ['count', 'mean', 'median', 'min', 'max'];
+
+/**
+ * Column holding a percentile, e.g. "p90"
+ */
+function percentileColumn(p: number): string {
+  return `p${p}`;
+}
+
+/**
+ * Summary statistics of a metric across entities, per group
+ */
+export const aggregateMetricSchema = z.object({
+  entityType: z.enum(['author', 'institution', 'journal']).describe('Type of entities to aggregate'),
+  metric: metricNameSchema.describe(`Numeric metric to summarize, by entity type (${describeMetricsByEntityType()})`),
+  groupBy: z.enum(['country', 'publisher', 'affiliation']).optional().describe(
+    'Dimension to group by: country (institutions), publisher (journals) or affiliation (authors). One row over all entities if omitted'
+  ),
+  statistics: z.array(z.enum(summaryStatisticNames)).min(1).optional().default(defaultStatistics)
+    .describe(`Statistics to compute per group (default: ${defaultStatistics.join(', ')})`),
+  percentiles: z.array(z.number().min(0).max(100)).optional().describe('Percentiles to add, e.g. [25, 75] for columns p25 and p75'),
+  filter: entityFilterSchema.optional().describe('Only aggregate entities meeting these conditions'),
+  sortBy: z.string().optional().describe('Column to order rows by: the groupBy dimension (default) or a statistic, e.g. "mean" or "p75"'),
+  sortOrder: sortOrderSchema.optional().describe('Defaults to asc for the dimension, desc for a statistic')
+}).superRefine(checkMetricsForEntityType('metric')).superRefine(checkFilterForEntityType('entityType')).superRefine((params, ctx) => {
+  const attribute = entityAttributes[params.entityType];
+  if (params.groupBy && params.groupBy !== attribute) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['groupBy'],
+      message: `${params.entityType}s can only be grouped by ${attribute}`
+    });
+  }
+
+  const columns = [
+    ...(params.groupBy ? [params.groupBy] : []),
+    ...(params.statistics ?? defaultStatistics),
+    ...(params.percentiles ?? []).map(percentileColumn)
+  ];
+  if (params.sortBy !== undefined && !columns.includes(params.sortBy)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['sortBy'],
+      message: `Sort by one of the result columns: ${columns.join(', ')}`
+    });
+  }
+});
+
+/**
+ * Rows are ordered by the groupBy dimension unless sorted otherwise. Count
+ * is the number of entities with a value for the metric; entities without
+ * a value for the dimension form a group of their own, labelled null.
+ */
+export function aggregateMetric(
+  params: z.infer<typeof aggregateMetricSchema>,
+  dataSource: DataSource = mockDataSource
+): MetricAggregation {
+  const { entityType, metric, groupBy, statistics = defaultStatistics, percentiles = [], filter } = params;
+
+  const groups = new Map<string | null, number[]>();
+  if (!groupBy) groups.set(null, []);
+  for (const entity of dataSource.listEntities(entityType)) {
+    if (!matchesFilter(dataSource, entity, entityType, filter)) continue;
+    const key = groupBy ? ((entity as Record<string, unknown>)[groupBy] as string | undefined) ?? null : null;
+    const values = groups.get(key) ?? [];
+    const value = getMetricValue(entity, metric, entityType);
+    if (value !== undefined) values.push(value);
+    groups.set(key, values);
+  }
+
+  const rows = [...groups].map(([key, values]): Record<string, QueryCell> => ({
+    ...(groupBy && { [groupBy]: key }),
+    ...Object.fromEntries(statistics.map(statistic =>
+      [statistic, statistic === 'count' || values.length > 0 ? summaryStatistics[statistic](values) : null]
+    )),
+    ...Object.fromEntries(percentiles.map(p => [percentileColumn(p), values.length > 0 ? percentile(values, p) : null]))
+  }));
+
+  const sortBy = params.sortBy ?? groupBy;
+  const sortOrder = params.sortOrder ?? (sortBy === groupBy ? 'asc' : 'desc');
+
+  return {
+    entityType,
+    metric,
+    groupBy: groupBy ?? null,
+    columns: [...(groupBy ? [groupBy] : []), ...statistics, ...percentiles.map(percentileColumn)],
+    rows: sortBy ? sortByKey(rows, row => row[sortBy] ?? undefined, sortOrder) : rows
+  };
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { compareMultipleEntities, getBenchmark, getBenchmarkSchema } from './benchmarking';
+import { EntityNotFoundError } from './errors';
+import { createInMemoryDataSource } from './data/inMemoryDataSource';
+import { mockAuthors, mockInstitutions } from './data/mockData';
+
+describe('compareMultipleEntities', () => {
+  it('should build a matrix of ranks and deltas for every metric', () => {
+    const matrix = compareMultipleEntities({
+      entityType: 'institution',
+      entityIds: ['inst_001', 'inst_002', 'inst_003'],
+      metrics: ['fieldWeightedCitationImpact', 'collaborationRate']
+    });
+
+    expect(matrix?.entities.map(e => e.name)).toEqual([
+      'Massachusetts Institute of Technology',
+      'University of Oxford',
+      'ETH Zurich'
+    ]);
+
+    const fwci = matrix!.metrics[0];
+    expect(fwci.metric).toBe('fieldWeightedCitationImpact');
+    expect(fwci.mean).toBeCloseTo((2.89 + 3.12 + 2.56) / 3, 6);
+    expect(fwci.median).toBe(2.89);
+    expect(fwci.values.map(v => v.rank)).toEqual([2, 1, 3]);
+    expect(fwci.values[1].deltaFromMedian).toBeCloseTo(0.23, 6);
+    expect(fwci.values[2].percentFromMedian).toBeCloseTo(((2.56 - 2.89) / 2.89) * 100, 6);
+
+    expect(matrix!.metrics[1].values.map(v => v.rank)).toEqual([2, 1, 3]);
+  });
+
+  it('should leave entities without a value out of a metric', () => {
+    const dataSource = createInMemoryDataSource({
+      authors: [mockAuthors[0], { ...mockAuthors[1], metrics: { ...mockAuthors[1].metrics, publications: 0 } }, mockAuthors[2]],
+      institutions: [],
+      journals: [],
+      trends: {}
+    });
+    const matrix = compareMultipleEntities({
+      entityType: 'author',
+      entityIds: ['auth_001', 'auth_002', 'auth_003'],
+      metrics: ['citationsPerPublication']
+    }, dataSource);
+
+    expect(matrix.metrics[0].excludedEntityIds).toEqual(['auth_002']);
+    expect(matrix.metrics[0].values.map(v => [v.entityId, v.rank])).toEqual([['auth_001', 1], ['auth_003', 2]]);
+  });
+
+  it('should throw if any entity does not exist', () => {
+    expect(() => compareMultipleEntities({
+      entityType: 'author',
+      entityIds: ['auth_001', 'nonexistent'],
+      metrics: ['hIndex']
+    })).toThrow(EntityNotFoundError);
+  });
+});
+
+describe('getBenchmark', () => {
+  it('should place an entity against all peers by default', () => {
+    const benchmark = getBenchmark({ entityType: 'author', entityId: 'auth_001', metrics: ['hIndex'] });
+
+    expect(benchmark?.peerGroup.name).toBe('all');
+    expect(benchmark?.peerGroup.peers.map(p => p.id)).toEqual(['auth_002', 'auth_003']);
+    expect(benchmark?.metrics).toEqual([{
+      metric: 'hIndex',
+      value: 42,
+      peerMean: 44.5,
+      peerMedian: 44.5,
+      peerMin: 31,
+      peerMax: 58,
+      excludedPeers: 0,
+      rank: 2,
+      percentile: 50,
+      deltaFromMean: -2.5,
+      percentFromMean: (-2.5 / 44.5) * 100
+    }]);
+  });
+
+  it('should benchmark every metric of the entity type when none are given', () => {
+    const benchmark = getBenchmark({ entityType: 'journal', entityId: 'jour_001' });
+    expect(benchmark?.metrics.map(m => m.metric)).toEqual(['citesPerDoc', 'sjr', 'snip', 'percentCited', 'percentUncited']);
+    expect(benchmark?.metrics.every(m => m.rank === 1 && m.percentile === 100)).toBe(true);
+  });
+
+  it('should accept an ad-hoc peer set', () => {
+    const benchmark = getBenchmark({
+      entityType: 'institution',
+      entityId: 'inst_003',
+      peerIds: ['inst_001'],
+      metrics: ['academicCorporateCollaboration']
+    });
+    expect(benchmark?.peerGroup).toEqual({
+      name: 'custom',
+      peers: [{ id: 'inst_001', name: 'Massachusetts Institute of Technology' }]
+    });
+    expect(benchmark?.metrics[0].rank).toBe(1);
+  });
+
+  it('should select peers by a named group', () => {
+    const benchmark = getBenchmark({ entityType: 'institution', entityId: 'inst_001', peerGroup: 'sameCountry' });
+    expect(benchmark?.peerGroup.peers.map(p => p.name)).toEqual(['Stanford University']);
+  });
+
+  it('should throw for an empty peer group or unknown peers', () => {
+    expect(() => getBenchmark({ entityType: 'institution', entityId: 'inst_003', peerGroup: 'sameCountry' }))
+      .toThrow(expect.objectContaining({ code: 'INSUFFICIENT_DATA' }));
+    expect(() => getBenchmark({ entityType: 'author', entityId: 'auth_001', peerIds: ['nonexistent'] })).toThrow(EntityNotFoundError);
+  });
+
+  it('should not group authors without an affiliation together', () => {
+    const { affiliation, ...unaffiliated } = mockAuthors[0];
+    const dataSource = createInMemoryDataSource({
+      authors: [unaffiliated, { ...mockAuthors[1], affiliation: undefined }, mockAuthors[2], { ...mockAuthors[2], id: 'auth_004' }],
+      institutions: [],
+      journals: [],
+      trends: {}
+    });
+    expect(() => getBenchmark({ entityType: 'author', entityId: 'auth_001', peerGroup: 'sameAffiliation' }, dataSource))
+      .toThrow(expect.objectContaining({ code: 'INSUFFICIENT_DATA' }));
+    expect(getBenchmark({ entityType: 'author', entityId: 'auth_003', peerGroup: 'sameAffiliation' }, dataSource).peerGroup.peers.map(p => p.id))
+      .toEqual(['auth_004']);
+  });
+
+  it('should leave peers without a value out of the peer statistics', () => {
+    const dataSource = createInMemoryDataSource({
+      authors: [mockAuthors[0], { ...mockAuthors[1], metrics: { ...mockAuthors[1].metrics, publications: 0 } }, mockAuthors[2]],
+      institutions: [],
+      journals: [],
+      trends: {}
+    });
+    const benchmark = getBenchmark({ entityType: 'author', entityId: 'auth_001', metrics: ['citationsPerPublication'] }, dataSource);
+    const [metric] = benchmark.metrics;
+    expect(metric.excludedPeers).toBe(1);
+    expect(metric.peerMean).toBeCloseTo(mockAuthors[2].metrics.citations / mockAuthors[2].metrics.publications, 6);
+    expect(metric.rank).toBe(1);
+
+    const unpublished = getBenchmark({ entityType: 'author', entityId: 'auth_002' }, dataSource);
+    expect(unpublished.metrics.map(m => m.metric)).not.toContain('citationsPerPublication');
+    expect(() => getBenchmark({ entityType: 'author', entityId: 'auth_002', metrics: ['citationsPerPublication'] }, dataSource))
+      .toThrow(expect.objectContaining({ code: 'UNDEFINED_VALUE' }));
+  });
+
+  it('should group authors at the same institution whatever their affiliation text', () => {
+    const dataSource = createInMemoryDataSource({
+      authors: [mockAuthors[0], { ...mockAuthors[1], affiliation: 'Massachusetts Institute of Technology' }, mockAuthors[2]],
+      institutions: mockInstitutions,
+      journals: [],
+      trends: {},
+      relationships: [
+        { type: 'affiliation', fromId: 'auth_001', toId: 'inst_001', startYear: 2016 },
+        { type: 'affiliation', fromId: 'auth_002', toId: 'inst_001', startYear: 2020 },
+        { type: 'affiliation', fromId: 'auth_003', toId: 'inst_001', startYear: 2010, endYear: 2015 }
+      ]
+    });
+    expect(getBenchmark({ entityType: 'author', entityId: 'auth_001', peerGroup: 'sameAffiliation' }, dataSource).peerGroup.peers.map(p => p.id))
+      .toEqual(['auth_002']);
+  });
+
+  it('should reject peer groups that do not apply to the entity type', () => {
+    const result = getBenchmarkSchema.safeParse({ entityType: 'author', entityId: 'auth_001', peerGroup: 'samePublisher' });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject a named group combined with ad-hoc peers', () => {
+    const result = getBenchmarkSchema.safeParse({
+      entityType: 'author',
+      entityId: 'auth_001',
+      peerGroup: 'all',
+      peerIds: ['auth_002']
+    });
+    expect(result.success).toBe(false);
+  });
+});
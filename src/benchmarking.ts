@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { requireEntity } from './entityLookup';
+import { QueryError } from './errors';
+import { currentInstitutionIds, isAffiliatedWith } from './listing';
+import {
+  checkMetricsForEntityType,
+  describeMetricsByEntityType,
+  getMetricNames,
+  getMetricValue,
+  metricNameSchema,
+  requireMetricValue,
+  resolveMetric
+} from './metrics';
+import { mean, median, percentDifference, rank } from './statistics';
+import { Author, Benchmark, ComparisonMatrix, Entity, EntityType, Institution, Journal } from './types';
+
+/**
+ * A named rule for choosing an entity's peers
+ */
+export interface PeerGroupDefinition {
+  name: string;
+  description: string;
+  entityTypes: EntityType[];
+  /** Pick peers from the other entities of the same type */
+  select(entity: Entity, candidates: Entity[], dataSource: DataSource): Entity[];
+}
+
+export const peerGroups: PeerGroupDefinition[] = [
+  {
+    name: 'all',
+    description: 'every other entity of the same type',
+    entityTypes: ['author', 'institution', 'journal'],
+    select: (_entity, candidates) => candidates
+  },
+  {
+    name: 'sameAffiliation',
+    description: 'authors sharing a current institution or affiliation (none for an author without one)',
+    entityTypes: ['author'],
+    select: (entity, candidates, dataSource) => {
+      const author = entity as Author;
+      const affiliations = [...(author.affiliation ? [author.affiliation] : []), ...currentInstitutionIds(dataSource, author)];
+      return candidates.filter(c => affiliations.some(affiliation => isAffiliatedWith(dataSource, c as Author, affiliation)));
+    }
+  },
+  {
+    name: 'sameCountry',
+    description: 'institutions in the same country',
+    entityTypes: ['institution'],
+    select: (entity, candidates) =>
+      candidates.filter(c => (c as Institution).country === (entity as Institution).country)
+  },
+  {
+    name: 'samePublisher',
+    description: 'journals from the same publisher',
+    entityTypes: ['journal'],
+    select: (entity, candidates) =>
+      candidates.filter(c => (c as Journal).publisher === (entity as Journal).publisher)
+  }
+];
+
+const peerGroupNames = peerGroups.map(g => g.name) as [string, ...string[]];
+
+function higherIsBetter(entityType: EntityType, metric: string): boolean {
+  return resolveMetric(entityType, metric)?.higherIsBetter ?? true;
+}
+
+/**
+ * Compare N entities across M metrics
+ */
+export const compareMultipleEntitiesSchema = z.object({
+  entityType: z.enum(['author', 'institution', 'journal']).describe('Type of entities to compare'),
+  entityIds: z.array(z.string()).min(2).describe('Identifiers of the entities to compare (at least two)'),
+  metrics: z.array(metricNameSchema).min(1).describe(`Metrics to compare, by entity type (${describeMetricsByEntityType()})`)
+}).superRefine(checkMetricsForEntityType('metrics'));
+
+/**
+ * Entities without a value for a metric (e.g. a ratio over zero publications)
+ * are left out of that metric's statistics and ranks. Throws INSUFFICIENT_DATA
+ * if none of them has a value.
+ */
+export function compareMultipleEntities(
+  params: z.infer<typeof compareMultipleEntitiesSchema>,
+  dataSource: DataSource = mockDataSource
+): ComparisonMatrix {
+  const { entityType, entityIds, metrics } = params;
+
+  const found = entityIds.map(id => requireEntity(dataSource, entityType, id));
+
+  return {
+    entityType,
+    entities: found.map(entity => ({ id: entity.id, name: entity.name })),
+    metrics: metrics.map(metric => {
+      const valued = found.flatMap(entity => {
+        const value = getMetricValue(entity, metric, entityType);
+        return value === undefined ? [] : [{ entity, value }];
+      });
+      if (valued.length === 0) {
+        throw new QueryError(
+          'INSUFFICIENT_DATA',
+          `None of the ${entityType}s has a value for metric '${metric}'`,
+          'Compare on another metric.'
+        );
+      }
+
+      const values = valued.map(v => v.value);
+      const groupMean = mean(values);
+      const groupMedian = median(values);
+      const ranks = rank(values, higherIsBetter(entityType, metric));
+
+      return {
+        metric,
+        mean: groupMean,
+        median: groupMedian,
+        excludedEntityIds: found.filter(entity => !valued.some(v => v.entity === entity)).map(entity => entity.id),
+        values: valued.map(({ entity }, i) => ({
+          entityId: entity.id,
+          value: values[i],
+          rank: ranks[i],
+          deltaFromMean: values[i] - groupMean,
+          deltaFromMedian: values[i] - groupMedian,
+          percentFromMean: percentDifference(values[i], groupMean),
+          percentFromMedian: percentDifference(values[i], groupMedian)
+        }))
+      };
+    })
+  };
+}
+
+/**
+ * Benchmark an entity against a named or ad-hoc peer group
+ */
+export const getBenchmarkSchema = z.object({
+  entityType: z.enum(['author', 'institution', 'journal']).describe('Type of entity'),
+  entityId: z.string().describe('Entity to benchmark'),
+  peerGroup: z.enum(peerGroupNames).optional().describe(
+    `Named peer group (${peerGroups.map(g => `${g.name}: ${g.description}`).join('; ')}). Defaults to "all"`
+  ),
+  peerIds: z.array(z.string()).optional().describe('Ad-hoc peer set of entity identifiers, instead of a named peer group'),
+  metrics: z.array(metricNameSchema).optional().describe('Metrics to benchmark (all if not specified)')
+}).superRefine(checkMetricsForEntityType('metrics')).superRefine((params, ctx) => {
+  if (params.peerGroup && params.peerIds) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['peerIds'], message: 'Specify either peerGroup or peerIds, not both' });
+  }
+  const group = peerGroups.find(g => g.name === params.peerGroup);
+  if (group && !group.entityTypes.includes(params.entityType)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['peerGroup'],
+      message: `Peer group '${group.name}' does not apply to ${params.entityType}s`
+    });
+  }
+});
+
+/**
+ * Peers without a value for a metric are left out of that metric's peer
+ * statistics. Metrics the entity has no value for, or no peer has, are left
+ * out of the default set; requested ones throw UNDEFINED_VALUE or
+ * INSUFFICIENT_DATA, as does an empty peer group.
+ */
+export function getBenchmark(
+  params: z.infer<typeof getBenchmarkSchema>,
+  dataSource: DataSource = mockDataSource
+): Benchmark {
+  const { entityType, entityId, peerGroup, peerIds } = params;
+
+  const entity = requireEntity(dataSource, entityType, entityId);
+
+  let groupName: string;
+  let peers: Entity[];
+
+  if (peerIds) {
+    groupName = 'custom';
+    peers = peerIds.filter(id => id !== entityId).map(id => requireEntity(dataSource, entityType, id));
+  } else {
+    const group = peerGroups.find(g => g.name === (peerGroup ?? 'all'))!;
+    const candidates = dataSource.listEntities(entityType).filter(e => e.id !== entityId);
+    groupName = group.name;
+    peers = group.select(entity, candidates, dataSource);
+  }
+
+  if (peers.length === 0) {
+    throw new QueryError(
+      'INSUFFICIENT_DATA',
+      `Peer group '${groupName}' has no ${entityType}s to compare '${entityId}' with`,
+      `Pass peerIds or choose another peerGroup: ${peerGroupNames.join(', ')}.`
+    );
+  }
+
+  const metrics = params.metrics ?? getMetricNames(entityType);
+  const requested = params.metrics !== undefined;
+
+  return {
+    entity: { id: entity.id, name: entity.name },
+    entityType,
+    peerGroup: {
+      name: groupName,
+      peers: peers.map(peer => ({ id: peer.id, name: peer.name }))
+    },
+    metrics: metrics.flatMap(metric => {
+      const value = requested ? requireMetricValue(entity, entityType, metric) : getMetricValue(entity, metric, entityType);
+      if (value === undefined) return [];
+      const peerValues = peers
+        .map(peer => getMetricValue(peer, metric, entityType))
+        .filter((v): v is number => v !== undefined);
+      if (peerValues.length === 0) {
+        if (!requested) return [];
+        throw new QueryError(
+          'INSUFFICIENT_DATA',
+          `No ${entityType} in peer group '${groupName}' has a value for metric '${metric}'`,
+          'Benchmark on another metric or against other peers.'
+        );
+      }
+      const higher = higherIsBetter(entityType, metric);
+      const peerMean = mean(peerValues);
+      const outperformed = peerValues.filter(v => (higher ? value > v : value < v)).length;
+
+      return [{
+        metric,
+        value,
+        peerMean,
+        peerMedian: median(peerValues),
+        peerMin: Math.min(...peerValues),
+        peerMax: Math.max(...peerValues),
+        excludedPeers: peers.length - peerValues.length,
+        rank: rank([value, ...peerValues], higher)[0],
+        percentile: (outperformed / peerValues.length) * 100,
+        deltaFromMean: value - peerMean,
+        percentFromMean: percentDifference(value, peerMean)
+      }];
+    })
+  };
+}
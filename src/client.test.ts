@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createApp } from './index';
+import {
+  createScivalClient,
+  EntityNotFoundError,
+  FunctionNotFoundError,
+  InvalidParametersError,
+  ScivalClient,
+  UnknownMetricError
+} from './client';
+import { queryFunctions } from './queries';
+
+let server: Server;
+let client: ScivalClient;
+
+beforeAll(async () => {
+  server = createApp().listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  client = createScivalClient({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/` });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('createScivalClient', () => {
+  it('should expose a method for every query function', () => {
+    for (const name of Object.keys(queryFunctions)) {
+      expect(client[name as keyof typeof queryFunctions]).toBeTypeOf('function');
+    }
+  });
+
+  it('should return query results', async () => {
+    const author = await client.getEntity({ entityType: 'author', entityId: 'auth_001' });
+    expect(author?.name).toBe('Dr. Sarah Chen');
+
+    const top = await client.getTopEntities({ entityType: 'author', metric: 'h-index', limit: 1 });
+    expect(top.items.map(a => a.id)).toEqual(['auth_002']);
+  });
+
+  it('should throw InvalidParametersError with the validation issues', async () => {
+    const error = await client.getMetrics({ entityType: 'author', entityId: 42 as unknown as string }).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidParametersError);
+    expect(error.status).toBe(400);
+    expect(error.issues[0].path).toEqual(['entityId']);
+  });
+
+  it('should throw UnknownMetricError with the available metrics', async () => {
+    const error = await client.getTrend({ entityId: 'auth_002', metric: 'hIndex' }).catch(e => e);
+    expect(error).toBeInstanceOf(UnknownMetricError);
+    expect(error.availableMetrics).toEqual(['publications', 'citations', 'citationsPerPublication']);
+  });
+
+  it('should throw EntityNotFoundError with suggestions and a hint', async () => {
+    const error = await client.getEntity({ entityType: 'author', entityId: 'Sarah Chen' }).catch(e => e);
+    expect(error).toBeInstanceOf(EntityNotFoundError);
+    expect(error.status).toBe(404);
+    expect(error.code).toBe('ENTITY_NOT_FOUND');
+    expect(error.suggestions.map((s: { id: string }) => s.id)).toEqual(['auth_001']);
+    expect(error.hint).toBe("Did you mean 'auth_001' (Dr. Sarah Chen)?");
+  });
+
+  it('should keep the code and status of other query errors', async () => {
+    const error = await client.getTrendInsights({ entityId: 'auth_001', metric: 'publications', startYear: 2023 }).catch(e => e);
+    expect(error.status).toBe(422);
+    expect(error.code).toBe('INSUFFICIENT_DATA');
+    expect(error.hint).toBe('Widen the range: publications data covers 2019–2023.');
+  });
+
+  it('should throw FunctionNotFoundError for functions the server lacks', async () => {
+    const error = await client.query('dropTables' as 'getEntity', { entityType: 'author', entityId: 'x' }).catch(e => e);
+    expect(error).toBeInstanceOf(FunctionNotFoundError);
+    expect(error.status).toBe(404);
+  });
+
+  it('should run batches with a result or error per query', async () => {
+    const [trend, entity, failed] = await client.batch([
+      { functionName: 'getTrend', params: { entityId: 'auth_002', metric: 'citations' } },
+      { functionName: 'getEntity', params: { entityType: 'journal', entityId: 'jour_001' } },
+      { functionName: 'getTrend', params: { entityId: 'auth_002', metric: 'hIndex' } }
+    ]);
+
+    expect(trend.success && trend.result?.length).toBe(5);
+    expect(entity.success && entity.result?.name).toBe('Nature');
+    expect(failed.success).toBe(false);
+    expect(!failed.success && failed.error).toBeInstanceOf(UnknownMetricError);
+  });
+
+  it('should send the API key and custom headers', async () => {
+    const requests: Request[] = [];
+    const recording = createScivalClient({
+      baseUrl: 'http://scival.test',
+      apiKey: 'secret',
+      headers: { 'X-Request-Source': 'tests' },
+      fetch: async (input, init) => {
+        requests.push(new Request(input, init));
+        return Response.json({ result: null });
+      }
+    });
+
+    await recording.getEntity({ entityType: 'author', entityId: 'auth_001' });
+
+    expect(requests[0].url).toBe('http://scival.test/api/query/getEntity');
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer secret');
+    expect(requests[0].headers.get('X-Request-Source')).toBe('tests');
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Typed client for the SciVal LLM Data Layer API.
+ *
+ * Parameter and result types come from the Zod schemas and functions in
+ * `queries.ts`. Only types are imported, so the client carries none of the
+ * server code at runtime.
+ */
+import type { z } from 'zod';
+import type { EntitySuggestion, QueryErrorCode } from './errors';
+import type { queryFunctions } from './queries';
+
+type QueryFunctions = typeof queryFunctions;
+
+export type QueryName = keyof QueryFunctions;
+
+/** Parameters as sent: optional fields and defaults may be omitted, metric aliases are accepted */
+export type QueryParams<Name extends QueryName> = z.input<QueryFunctions[Name]['schema']>;
+
+/** Result as returned in the response body */
+export type QueryResult<Name extends QueryName> = ReturnType<QueryFunctions[Name]['function']>;
+
+/**
+ * Every query function, in registry order. The check below fails to compile
+ * if a function is added to `queryFunctions` without being listed here.
+ */
+const queryNames = [
+  'getEntity',
+  'searchEntities',
+  'getMetrics',
+  'compareEntities',
+  'compareMultipleEntities',
+  'getBenchmark',
+  'getTrend',
+  'getAvailableTrends',
+  'getTrendInsights',
+  'getTopEntities',
+  'getRelatedEntities',
+  'getInstitutionAuthors',
+  'getAuthorJournals',
+  'getEntityCollaborationNetwork',
+  'aggregateMetric',
+  'runQuery'
+] as const satisfies readonly QueryName[];
+
+const allQueriesListed: [Exclude<QueryName, typeof queryNames[number]>] extends [never] ? true : false = true;
+void allQueriesListed;
+
+/**
+ * Body of an API error response
+ */
+export interface ErrorResponse {
+  error: string;
+  /** Machine-readable reason, e.g. ENTITY_NOT_FOUND */
+  code?: QueryErrorCode;
+  /** How to recover, e.g. "Did you mean 'auth_002' (Prof. James Anderson)?" */
+  hint?: string;
+  details?: ValidationIssue[];
+  availableMetrics?: string[];
+  suggestions?: EntitySuggestion[];
+}
+
+/**
+ * A parameter validation failure, as reported by the API
+ */
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+  code: string;
+}
+
+/**
+ * An error response from the API
+ */
+export class ScivalApiError extends Error {
+  public readonly code: QueryErrorCode | undefined;
+  public readonly hint: string | undefined;
+
+  constructor(
+    message: string,
+    /** HTTP status; for a failed query inside a batch, the status it would have had on its own */
+    public readonly status: number | undefined,
+    public readonly body: ErrorResponse
+  ) {
+    super(message);
+    this.code = body.code;
+    this.hint = body.hint;
+    this.name = 'ScivalApiError';
+  }
+}
+
+/**
+ * The named query function doesn't exist
+ */
+export class FunctionNotFoundError extends ScivalApiError {
+  constructor(status: number | undefined, body: ErrorResponse) {
+    super(body.error, status, body);
+    this.name = 'FunctionNotFoundError';
+  }
+}
+
+/**
+ * The parameters failed validation
+ */
+export class InvalidParametersError extends ScivalApiError {
+  public readonly issues: ValidationIssue[];
+
+  constructor(status: number | undefined, body: ErrorResponse) {
+    const issues = body.details ?? [];
+    super(
+      `Invalid parameters: ${issues.map(i => (i.path.length > 0 ? `${i.path.join('.')}: ${i.message}` : i.message)).join('; ')}`,
+      status,
+      body
+    );
+    this.issues = issues;
+    this.name = 'InvalidParametersError';
+  }
+}
+
+/**
+ * The entity has no data for the requested metric
+ */
+export class UnknownMetricError extends ScivalApiError {
+  public readonly availableMetrics: string[];
+
+  constructor(status: number | undefined, body: ErrorResponse) {
+    super(body.error, status, body);
+    this.availableMetrics = body.availableMetrics ?? [];
+    this.name = 'UnknownMetricError';
+  }
+}
+
+/**
+ * No entity has the requested identifier
+ */
+export class EntityNotFoundError extends ScivalApiError {
+  /** Entities the identifier may have been meant for */
+  public readonly suggestions: EntitySuggestion[];
+
+  constructor(status: number | undefined, body: ErrorResponse) {
+    super(body.error, status, body);
+    this.suggestions = body.suggestions ?? [];
+    this.name = 'EntityNotFoundError';
+  }
+}
+
+/**
+ * Pick the error class matching an API error response
+ */
+function toError(status: number | undefined, body: ErrorResponse): ScivalApiError {
+  switch (body.code) {
+    case 'INVALID_PARAMETERS': return new InvalidParametersError(status, body);
+    case 'UNKNOWN_METRIC': return new UnknownMetricError(status, body);
+    case 'FUNCTION_NOT_FOUND': return new FunctionNotFoundError(status, body);
+    case 'ENTITY_NOT_FOUND': return new EntityNotFoundError(status, body);
+    default: return new ScivalApiError(body.error, status, body);
+  }
+}
+
+/**
+ * One query in a batch
+ */
+export type BatchQuery = {
+  [Name in QueryName]: { functionName: Name; params: QueryParams<Name> }
+}[QueryName];
+
+/**
+ * Outcome of one query in a batch; failures don't fail the whole batch
+ */
+export type BatchResult<Name extends QueryName> =
+  | { success: true; result: QueryResult<Name> }
+  | { success: false; error: ScivalApiError };
+
+export type BatchResults<Queries extends readonly BatchQuery[]> = {
+  [I in keyof Queries]: BatchResult<Queries[I]['functionName']>;
+};
+
+/**
+ * Options for connecting to the API
+ */
+export interface ScivalClientOptions {
+  /** API root (default http://localhost:3000) */
+  baseUrl?: string;
+  /** Sent as a bearer token in the Authorization header */
+  apiKey?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+export type ScivalClient = {
+  [Name in QueryName]: (params: QueryParams<Name>) => Promise<QueryResult<Name>>;
+} & {
+  /** Run a query by name */
+  query<Name extends QueryName>(functionName: Name, params: QueryParams<Name>): Promise<QueryResult<Name>>;
+  /** Run several queries in one request, with a result per query in the same order */
+  batch<const Queries extends readonly BatchQuery[]>(queries: Queries): Promise<BatchResults<Queries>>;
+};
+
+/**
+ * Create a client with one method per query function. Methods resolve to the
+ * query result and reject with a ScivalApiError subclass on error responses.
+ */
+export function createScivalClient(options: ScivalClientOptions = {}): ScivalClient {
+  const baseUrl = (options.baseUrl ?? 'http://localhost:3000').replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+
+  const post = async <T>(path: string, body: unknown): Promise<T> => {
+    const response = await fetchImpl(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        ...options.headers
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json().catch(() => ({ error: response.statusText }));
+    if (!response.ok) throw toError(response.status, data as ErrorResponse);
+    return data as T;
+  };
+
+  const query = async <Name extends QueryName>(functionName: Name, params: QueryParams<Name>) => {
+    const data = await post<{ result: QueryResult<Name> }>(`/api/query/${encodeURIComponent(functionName)}`, params);
+    return data.result;
+  };
+
+  const batch = async <const Queries extends readonly BatchQuery[]>(queries: Queries) => {
+    const data = await post<{ results: ({ success: true; result: unknown } | ErrorResponse)[] }>('/api/batch', { queries });
+    return data.results.map(item =>
+      'success' in item && item.success
+        ? { success: true, result: item.result }
+        : { success: false, error: toError((item as { status?: number }).status, item as ErrorResponse) }
+    ) as BatchResults<Queries>;
+  };
+
+  const methods = Object.fromEntries(
+    queryNames.map(name => [name, (params: QueryParams<typeof name>) => query(name, params)])
+  );
+
+  return { ...methods, query, batch } as ScivalClient;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getEntityCollaborationNetwork } from './collaboration';
+import { EntityNotFoundError } from './errors';
+
+const defaults = { depth: 1, minCoPublications: 1, maxNodes: 50 };
+
+describe('getEntityCollaborationNetwork', () => {
+  it('should return direct collaborators with aggregated edge weights', () => {
+    const network = getEntityCollaborationNetwork({ ...defaults, entityType: 'author', entityId: 'auth_001' });
+
+    expect(network?.nodes).toEqual([
+      { id: 'auth_001', name: 'Dr. Sarah Chen', depth: 0 },
+      { id: 'auth_002', name: 'Prof. James Anderson', depth: 1 },
+      { id: 'auth_003', name: 'Dr. Maria Rodriguez', depth: 1 }
+    ]);
+    expect(network?.edges).toEqual([
+      { source: 'auth_001', target: 'auth_002', weight: 6, firstYear: 2020, lastYear: 2022 },
+      { source: 'auth_001', target: 'auth_003', weight: 3, firstYear: 2021, lastYear: 2023 },
+      { source: 'auth_002', target: 'auth_003', weight: 1, firstYear: 2019, lastYear: 2019 }
+    ]);
+    expect(network?.truncated).toBe(false);
+  });
+
+  it('should expand to the requested depth', () => {
+    const direct = getEntityCollaborationNetwork({ ...defaults, entityType: 'institution', entityId: 'inst_003' });
+    expect(direct?.nodes.map(n => n.id)).toEqual(['inst_003', 'inst_001']);
+
+    const twoHops = getEntityCollaborationNetwork({ ...defaults, depth: 2, entityType: 'institution', entityId: 'inst_003' });
+    expect(twoHops?.nodes.map(n => [n.id, n.depth])).toEqual([
+      ['inst_003', 0],
+      ['inst_001', 1],
+      ['inst_004', 2],
+      ['inst_002', 2]
+    ]);
+    expect(twoHops?.edges).toEqual([
+      { source: 'inst_001', target: 'inst_004', weight: 849, firstYear: 2021, lastYear: 2022 },
+      { source: 'inst_001', target: 'inst_002', weight: 391, firstYear: 2021, lastYear: 2022 },
+      { source: 'inst_001', target: 'inst_003', weight: 96, firstYear: 2022, lastYear: 2022 }
+    ]);
+  });
+
+  it('should filter by year range and minimum co-publications', () => {
+    const network = getEntityCollaborationNetwork({
+      ...defaults,
+      entityType: 'author',
+      entityId: 'auth_001',
+      startYear: 2021,
+      minCoPublications: 3
+    });
+
+    expect(network?.edges).toEqual([
+      { source: 'auth_001', target: 'auth_002', weight: 4, firstYear: 2021, lastYear: 2022 },
+      { source: 'auth_001', target: 'auth_003', weight: 3, firstYear: 2021, lastYear: 2023 }
+    ]);
+  });
+
+  it('should stop at maxNodes and flag the network as truncated', () => {
+    const network = getEntityCollaborationNetwork({ ...defaults, maxNodes: 2, entityType: 'institution', entityId: 'inst_001' });
+    expect(network?.nodes.map(n => n.id)).toEqual(['inst_001', 'inst_004']);
+    expect(network?.truncated).toBe(true);
+  });
+
+  it('should throw for non-existent entity', () => {
+    expect(() => getEntityCollaborationNetwork({ ...defaults, entityType: 'author', entityId: 'nonexistent' })).toThrow(EntityNotFoundError);
+  });
+});
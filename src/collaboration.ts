@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { requireEntity } from './entityLookup';
+import { CollaborationNetwork } from './types';
+
+/**
+ * Co-authorship network around an author or institution
+ */
+export const getEntityCollaborationNetworkSchema = z.object({
+  entityType: z.enum(['author', 'institution']).describe('Type of entity at the center of the network'),
+  entityId: z.string().describe('Entity at the center of the network'),
+  depth: z.number().int().min(1).max(3).optional().default(1).describe('Hops from the center to include (1 = direct collaborators)'),
+  minCoPublications: z.number().optional().default(1).describe('Drop collaborations with fewer co-authored publications'),
+  startYear: z.number().optional().describe('Only count co-publications from this year'),
+  endYear: z.number().optional().describe('Only count co-publications up to this year'),
+  maxNodes: z.number().optional().default(50).describe('Stop adding collaborators beyond this many nodes')
+});
+
+interface Edge {
+  source: string;
+  target: string;
+  weight: number;
+  firstYear: number;
+  lastYear: number;
+}
+
+/**
+ * Breadth-first expansion from the center. Edges are aggregated over the year
+ * range and include links between any two nodes in the result, not only those
+ * to the center.
+ */
+export function getEntityCollaborationNetwork(
+  params: z.infer<typeof getEntityCollaborationNetworkSchema>,
+  dataSource: DataSource = mockDataSource
+): CollaborationNetwork {
+  const { entityType, entityId, depth, minCoPublications, startYear, endYear, maxNodes } = params;
+
+  const center = requireEntity(dataSource, entityType, entityId);
+
+  // Aggregate one entity's collaborations per partner within the year range
+  const edgesOf = (id: string): Edge[] => {
+    const byPartner = new Map<string, Edge>();
+    for (const c of dataSource.getCollaborations(id)) {
+      if (c.entityType !== entityType) continue;
+      if (startYear !== undefined && c.year < startYear) continue;
+      if (endYear !== undefined && c.year > endYear) continue;
+
+      const partner = c.entityIdA === id ? c.entityIdB : c.entityIdA;
+      const edge = byPartner.get(partner);
+      if (edge) {
+        edge.weight += c.publications;
+        edge.firstYear = Math.min(edge.firstYear, c.year);
+        edge.lastYear = Math.max(edge.lastYear, c.year);
+      } else {
+        byPartner.set(partner, { source: id, target: partner, weight: c.publications, firstYear: c.year, lastYear: c.year });
+      }
+    }
+    return [...byPartner.values()].filter(edge => edge.weight >= minCoPublications);
+  };
+
+  const nodes = [{ id: center.id, name: center.name, depth: 0 }];
+  const depths = new Map([[center.id, 0]]);
+  const edgesByNode = new Map<string, Edge[]>();
+  let truncated = false;
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    const edges = edgesOf(node.id).sort((a, b) => b.weight - a.weight);
+    edgesByNode.set(node.id, edges);
+    if (node.depth >= depth) continue;
+
+    for (const edge of edges) {
+      if (depths.has(edge.target)) continue;
+      const partner = dataSource.getEntity(entityType, edge.target);
+      if (!partner) continue;
+      if (nodes.length >= maxNodes) {
+        truncated = true;
+        break;
+      }
+      depths.set(partner.id, node.depth + 1);
+      nodes.push({ id: partner.id, name: partner.name, depth: node.depth + 1 });
+    }
+  }
+
+  // Each undirected edge is seen from both ends; keep it once
+  const edges: Edge[] = [];
+  for (const [id, nodeEdges] of edgesByNode) {
+    for (const edge of nodeEdges) {
+      if (depths.has(edge.target) && id < edge.target) edges.push(edge);
+    }
+  }
+
+  return { center: center.id, entityType, nodes, edges, truncated };
+}
@@ -0,0 +1,82 @@
+/**
+ * A parsed CSV record together with the line it starts on
+ */
+export interface CsvRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Parse RFC 4180 style CSV text with a header row.
+ *
+ * Supports quoted fields containing commas, newlines and doubled quotes.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const records = tokenize(text);
+  if (records.length === 0) return [];
+
+  const [header, ...body] = records;
+  const columns = header.fields.map(column => column.trim());
+
+  return body.map(record => {
+    const values: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      values[column] = record.fields[index] ?? '';
+    });
+    return { line: record.line, values };
+  });
+}
+
+function tokenize(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Skip blank lines
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
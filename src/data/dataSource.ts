@@ -0,0 +1,42 @@
+import { Collaboration, Entity, EntityType, Relationship, TrendPoint } from '../types';
+
+/**
+ * Backing store for the query functions.
+ *
+ * Query functions only talk to this interface, so the same API can be served
+ * from in-memory fixtures, files or a database.
+ */
+export interface DataSource {
+  /** Look up a single entity by id, or null if it does not exist */
+  getEntity(entityType: EntityType, entityId: string): Entity | null;
+
+  /**
+   * Entities with a name word or acronym starting with the query (see
+   * searchTerms), at most `limit` if given. findEntities scores these candidates.
+   */
+  searchEntities(entityType: EntityType, query: string, limit?: number): Entity[];
+
+  /** Every entity of the given type, as a fresh array the caller may reorder */
+  listEntities(entityType: EntityType): Entity[];
+
+  /** Number of entities of the given type */
+  countEntities(entityType: EntityType): number;
+
+  /** Latest year any entity's metrics cover (its period end), or null if no entity has a period */
+  latestPeriodEnd(): number | null;
+
+  /** Top `limit` entities by a metric, highest first; entities without the metric come last, in storage order */
+  rankEntities(entityType: EntityType, metric: string, limit: number): Entity[];
+
+  /** Yearly series of one metric for an entity, or null if none is stored */
+  getTrend(entityId: string, metric: string): TrendPoint[] | null;
+
+  /** Metrics that have a stored trend series for the entity */
+  getTrendMetrics(entityId: string): string[];
+
+  /** Relationships with the entity at either end */
+  getRelationships(entityId: string): Relationship[];
+
+  /** Yearly co-publication records with the author or institution at either end */
+  getCollaborations(entityId: string): Collaboration[];
+}
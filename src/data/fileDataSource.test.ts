@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileDataSource, loadDataDirectory, DataLoadError } from './fileDataSource';
+import { getEntity, getTopEntities, getTrend } from '../queries';
+
+let directory: string;
+
+function writeFile(name: string, content: string) {
+  fs.writeFileSync(path.join(directory, name), content);
+}
+
+const authorsCsv = [
+  'id,name,affiliation,metrics.publications,metrics.citations,metrics.hIndex,metrics.fieldWeightedCitationImpact,metrics.outputsInTopCitationPercentiles.top1,metrics.outputsInTopCitationPercentiles.top5,metrics.outputsInTopCitationPercentiles.top10',
+  'a1,"Lee, Min",KAIST,10,200,8,1.5,1,2,3',
+  'a2,Ana Silva,,20,500,12,2.1,2,4,6'
+].join('\n');
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scival-data-'));
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('loadDataDirectory', () => {
+  it('should load authors from CSV with nested metric columns', () => {
+    writeFile('authors.csv', authorsCsv);
+
+    const { data, errors } = loadDataDirectory(directory);
+    expect(errors).toEqual([]);
+    expect(data.authors).toHaveLength(2);
+    expect(data.authors[0].name).toBe('Lee, Min');
+    expect(data.authors[0].metrics.outputsInTopCitationPercentiles.top5).toBe(2);
+    expect(data.authors[1].affiliation).toBeUndefined();
+  });
+
+  it('should load institutions from NDJSON and journals from JSON', () => {
+    writeFile('institutions.ndjson', [
+      JSON.stringify({ id: 'i1', name: 'KAIST', country: 'South Korea', metrics: { publications: 1, citations: 2, collaborationRate: 0.5, fieldWeightedCitationImpact: 1.2, academicCorporateCollaboration: 0.1 } }),
+      ''
+    ].join('\n'));
+    writeFile('journals.json', JSON.stringify([
+      { id: 'j1', name: 'PLOS ONE', publisher: 'PLOS', metrics: { citesPerDoc: 3.1, sjr: 0.9, snip: 1.0, percentCited: 70 } }
+    ]));
+
+    const { data, errors } = loadDataDirectory(directory);
+    expect(errors).toEqual([]);
+    expect(data.institutions[0].country).toBe('South Korea');
+    expect(data.journals[0].publisher).toBe('PLOS');
+  });
+
+  it('should group and sort trend rows by entity and metric', () => {
+    writeFile('trends.csv', 'entityId,metric,year,value\na1,publications,2021,5\na1,publications,2020,3\na1,citations,2020,40\na2,publications,2020,9');
+
+    const { data } = loadDataDirectory(directory);
+    expect(data.trends.a1.publications).toEqual([{ year: 2020, value: 3 }, { year: 2021, value: 5 }]);
+    expect(data.trends.a1.citations).toEqual([{ year: 2020, value: 40 }]);
+    expect(data.trends.a2).toEqual({ publications: [{ year: 2020, value: 9 }] });
+  });
+
+  it('should load relationships', () => {
+    writeFile('relationships.csv', 'type,fromId,toId,startYear,endYear,publications\naffiliation,a1,i1,2015,,\nauthorJournal,a1,j1,,,12');
+
+    const { data, errors } = loadDataDirectory(directory);
+    expect(errors).toEqual([]);
+    expect(data.relationships).toEqual([
+      { type: 'affiliation', fromId: 'a1', toId: 'i1', startYear: 2015 },
+      { type: 'authorJournal', fromId: 'a1', toId: 'j1', publications: 12 }
+    ]);
+  });
+
+  it('should load collaborations', () => {
+    writeFile('collaborations.ndjson', '{"entityType":"author","entityIdA":"a1","entityIdB":"a2","year":2021,"publications":3}');
+
+    const { data, errors } = loadDataDirectory(directory);
+    expect(errors).toEqual([]);
+    expect(data.collaborations).toEqual([
+      { entityType: 'author', entityIdA: 'a1', entityIdB: 'a2', year: 2021, publications: 3 }
+    ]);
+  });
+
+  it('should report invalid rows with file and line', () => {
+    writeFile('authors.csv', authorsCsv + '\na3,Bad Row,,lots,1,1,1,1,1,1');
+    writeFile('trends.ndjson', '{"entityId":"a1","metric":"citations","year":2020,"value":1}\n{not json}\n{"entityId":"a1","metric":"citations","year":"x","value":1}');
+
+    const { data, errors } = loadDataDirectory(directory);
+    expect(data.authors).toHaveLength(2);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatchObject({ file: path.join(directory, 'authors.csv'), line: 4 });
+    expect(errors[0].message).toContain('metrics.publications');
+    expect(errors[1]).toMatchObject({ file: path.join(directory, 'trends.ndjson'), line: 2 });
+    expect(errors[2]).toMatchObject({ line: 3 });
+    expect(errors[2].message).toContain('year');
+  });
+
+  it('should reject duplicate ids', () => {
+    writeFile('authors.csv', authorsCsv + '\na1,Again,,1,1,1,1,1,1,1');
+
+    const { errors } = loadDataDirectory(directory);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain("Duplicate id 'a1'");
+  });
+});
+
+describe('createFileDataSource', () => {
+  it('should serve loaded files through the query functions', () => {
+    writeFile('authors.csv', authorsCsv);
+    writeFile('trends.csv', 'entityId,metric,year,value\na2,publications,2022,4');
+
+    const dataSource = createFileDataSource(directory);
+    expect(getEntity({ entityType: 'author', entityId: 'a1' }, dataSource)?.name).toBe('Lee, Min');
+    expect(getTopEntities({ entityType: 'author', metric: 'citations', limit: 1 }, dataSource).items[0].id).toBe('a2');
+    expect(getTrend({ entityId: 'a2', metric: 'publications' }, dataSource)).toEqual([{ year: 2022, value: 4 }]);
+  });
+
+  it('should throw a DataLoadError listing invalid rows', () => {
+    writeFile('authors.csv', authorsCsv + '\na3,Bad Row,,lots,1,1,1,1,1,1');
+
+    expect(() => createFileDataSource(directory)).toThrow(DataLoadError);
+    expect(() => createFileDataSource(directory)).toThrow(/authors\.csv:4/);
+  });
+
+  it('should skip invalid rows when allowed', () => {
+    writeFile('authors.csv', authorsCsv + '\na3,Bad Row,,lots,1,1,1,1,1,1');
+
+    const dataSource = createFileDataSource(directory, { allowInvalidRows: true });
+    expect(dataSource.listEntities('author')).toHaveLength(2);
+  });
+});
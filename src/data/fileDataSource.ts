@@ -0,0 +1,264 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import {
+  AuthorSchema,
+  CollaborationSchema,
+  InstitutionSchema,
+  JournalSchema,
+  RelationshipSchema,
+  TrendPointSchema,
+  TrendPoint
+} from '../types';
+import { DataSource } from './dataSource';
+import { createInMemoryDataSource, InMemoryData } from './inMemoryDataSource';
+import { parseCsv } from './csv';
+
+/**
+ * A single trend row as exported: one point of one entity's series
+ */
+const TrendRowSchema = TrendPointSchema.extend({
+  entityId: z.string(),
+  metric: z.string()
+});
+
+/**
+ * Collections that can be loaded from a data directory, keyed by file base name
+ */
+const collectionSchemas = {
+  authors: AuthorSchema,
+  institutions: InstitutionSchema,
+  journals: JournalSchema,
+  trends: TrendRowSchema,
+  relationships: RelationshipSchema,
+  collaborations: CollaborationSchema
+};
+
+type CollectionName = keyof typeof collectionSchemas;
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.ndjson', '.json'];
+
+/**
+ * A row that could not be loaded
+ */
+export interface RowError {
+  /** File the row came from */
+  file: string;
+  /** 1-based line number (CSV, NDJSON) */
+  line?: number;
+  /** 1-based position in the top-level array (JSON) */
+  record?: number;
+  message: string;
+}
+
+/**
+ * Result of loading a data directory
+ */
+export interface FileLoadResult {
+  data: InMemoryData;
+  errors: RowError[];
+}
+
+/**
+ * Thrown when a data directory contains rows that fail validation
+ */
+export class DataLoadError extends Error {
+  constructor(public readonly errors: RowError[]) {
+    super(
+      `Failed to load ${errors.length} row(s):\n` +
+      errors.map(e => `  ${formatLocation(e)}: ${e.message}`).join('\n')
+    );
+    this.name = 'DataLoadError';
+  }
+}
+
+/**
+ * Load entities and trends from a directory of exports.
+ *
+ * Recognised files are `authors`, `institutions`, `journals`, `trends`,
+ * `relationships` and `collaborations`, each as `.csv`, `.ndjson` or `.json` (an array of records). CSV files use
+ * dotted column names for nested fields, e.g. `metrics.hIndex` or
+ * `metrics.outputsInTopCitationPercentiles.top1`; trend files have
+ * `entityId`, `metric`, `year` and `value` columns; relationship files have
+ * `type`, `fromId`, `toId` and optional `startYear`, `endYear`, `publications`;
+ * collaboration files have `entityType`, `entityIdA`, `entityIdB`, `year` and
+ * `publications`.
+ *
+ * Invalid rows are skipped and reported in `errors`.
+ */
+export function loadDataDirectory(directory: string): FileLoadResult {
+  const data: InMemoryData = { authors: [], institutions: [], journals: [], trends: {}, relationships: [], collaborations: [] };
+  const errors: RowError[] = [];
+  const seenIds = new Map<string, string>();
+
+  for (const collection of Object.keys(collectionSchemas) as CollectionName[]) {
+    for (const extension of SUPPORTED_EXTENSIONS) {
+      const file = path.join(directory, `${collection}${extension}`);
+      if (!fs.existsSync(file)) continue;
+
+      const schema = collectionSchemas[collection];
+      const rows = readRows(file, extension, schema, errors);
+
+      for (const row of rows) {
+        const parsed = schema.safeParse(row.value);
+        if (!parsed.success) {
+          errors.push({ ...row.location, message: formatZodError(parsed.error) });
+          continue;
+        }
+
+        if (collection === 'trends') {
+          const { entityId, metric, year, value } = parsed.data as z.infer<typeof TrendRowSchema>;
+          ((data.trends[entityId] ??= {})[metric] ??= []).push({ year, value });
+          continue;
+        }
+
+        if (collection === 'relationships') {
+          data.relationships!.push(parsed.data as z.infer<typeof RelationshipSchema>);
+          continue;
+        }
+
+        if (collection === 'collaborations') {
+          data.collaborations!.push(parsed.data as z.infer<typeof CollaborationSchema>);
+          continue;
+        }
+
+        const entity = parsed.data as { id: string };
+        const duplicateOf = seenIds.get(entity.id);
+        if (duplicateOf) {
+          errors.push({ ...row.location, message: `Duplicate id '${entity.id}' (first defined in ${duplicateOf})` });
+          continue;
+        }
+        seenIds.set(entity.id, formatLocation(row.location));
+        (data[collection] as unknown[]).push(entity);
+      }
+    }
+  }
+
+  for (const series of Object.values(data.trends)) {
+    for (const points of Object.values(series)) {
+      points.sort((a: TrendPoint, b: TrendPoint) => a.year - b.year);
+    }
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Options for a file-backed data source
+ */
+export interface FileDataSourceOptions {
+  /** Skip invalid rows instead of throwing a DataLoadError (default false) */
+  allowInvalidRows?: boolean;
+}
+
+/**
+ * Create a data source from a directory of exports (see loadDataDirectory)
+ */
+export function createFileDataSource(directory: string, options: FileDataSourceOptions = {}): DataSource {
+  const { data, errors } = loadDataDirectory(directory);
+
+  if (errors.length > 0 && !options.allowInvalidRows) {
+    throw new DataLoadError(errors);
+  }
+
+  return createInMemoryDataSource(data);
+}
+
+interface RawRow {
+  location: Omit<RowError, 'message'>;
+  value: unknown;
+}
+
+function readRows(file: string, extension: string, schema: z.ZodTypeAny, errors: RowError[]): RawRow[] {
+  const text = fs.readFileSync(file, 'utf8');
+
+  switch (extension) {
+    case '.csv':
+      return parseCsv(text).map(row => ({
+        location: { file, line: row.line },
+        value: coerceToSchema(unflatten(row.values), schema)
+      }));
+
+    case '.ndjson': {
+      const rows: RawRow[] = [];
+      text.split(/\r?\n/).forEach((content, index) => {
+        if (content.trim() === '') return;
+        try {
+          rows.push({ location: { file, line: index + 1 }, value: JSON.parse(content) });
+        } catch (error) {
+          errors.push({ file, line: index + 1, message: `Invalid JSON: ${(error as Error).message}` });
+        }
+      });
+      return rows;
+    }
+
+    default: {
+      let records: unknown;
+      try {
+        records = JSON.parse(text);
+      } catch (error) {
+        errors.push({ file, message: `Invalid JSON: ${(error as Error).message}` });
+        return [];
+      }
+      if (!Array.isArray(records)) {
+        errors.push({ file, message: 'Expected a JSON array of records' });
+        return [];
+      }
+      return records.map((value, index) => ({ location: { file, record: index + 1 }, value }));
+    }
+  }
+}
+
+/**
+ * Turn dotted CSV columns into nested objects
+ */
+function unflatten(values: Record<string, string>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(values)) {
+    const keys = column.split('.');
+    let target = result;
+    keys.slice(0, -1).forEach(key => {
+      target = (target[key] ??= {}) as Record<string, unknown>;
+    });
+    target[keys[keys.length - 1]] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Convert CSV cell strings to the types the schema expects
+ */
+function coerceToSchema(value: unknown, schema: z.ZodTypeAny): unknown {
+  if (schema instanceof z.ZodOptional) {
+    return value === '' ? undefined : coerceToSchema(value, schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodObject && value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childSchema = schema.shape[key];
+      result[key] = childSchema ? coerceToSchema(child, childSchema) : child;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber && typeof value === 'string' && value.trim() !== '') {
+    return Number(value);
+  }
+
+  return value;
+}
+
+function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+function formatLocation(location: Omit<RowError, 'message'>): string {
+  if (location.line !== undefined) return `${location.file}:${location.line}`;
+  if (location.record !== undefined) return `${location.file}[${location.record}]`;
+  return location.file;
+}
@@ -0,0 +1,92 @@
+import { Author, Collaboration, Entity, EntityType, Institution, Journal, Relationship, TrendSeries } from '../types';
+import { getMetricValue } from '../metrics';
+import { foldText, searchTerms } from '../search';
+import { DataSource } from './dataSource';
+import { mockAuthors, mockCollaborations, mockInstitutions, mockJournals, mockRelationships, mockTrends } from './mockData';
+
+/**
+ * Entity collections held by an in-memory data source
+ */
+export interface InMemoryData {
+  authors: Author[];
+  institutions: Institution[];
+  journals: Journal[];
+  /** Trend series keyed by entity id, then metric */
+  trends: Record<string, TrendSeries>;
+  relationships?: Relationship[];
+  collaborations?: Collaboration[];
+}
+
+/**
+ * Create a data source backed by plain arrays (fixtures, mock data, loaded files)
+ */
+export function createInMemoryDataSource(data: InMemoryData): DataSource {
+  const collections: Record<EntityType, Entity[]> = {
+    author: data.authors,
+    institution: data.institutions,
+    journal: data.journals
+  };
+
+  return {
+    getEntity(entityType, entityId) {
+      return collections[entityType].find(e => e.id === entityId) || null;
+    },
+
+    searchEntities(entityType, query, limit) {
+      const prefix = foldText(query).trim();
+      return collections[entityType]
+        .filter(e => searchTerms(e.name, entityType).some(term => term.startsWith(prefix)))
+        .slice(0, limit);
+    },
+
+    listEntities(entityType) {
+      return [...collections[entityType]];
+    },
+
+    countEntities(entityType) {
+      return collections[entityType].length;
+    },
+
+    latestPeriodEnd() {
+      return Object.values(collections)
+        .flat()
+        .reduce<number | null>((latest, e) => (e.period && (latest === null || e.period.end > latest) ? e.period.end : latest), null);
+    },
+
+    rankEntities(entityType, metric, limit) {
+      const ranked = collections[entityType].map(entity => ({ entity, value: getMetricValue(entity, metric) }));
+      return [
+        ...ranked.filter(r => r.value !== undefined).sort((a, b) => b.value! - a.value!),
+        ...ranked.filter(r => r.value === undefined)
+      ].slice(0, limit).map(r => r.entity);
+    },
+
+    getTrend(entityId, metric) {
+      return data.trends[entityId]?.[metric] || null;
+    },
+
+    getTrendMetrics(entityId) {
+      return Object.keys(data.trends[entityId] || {});
+    },
+
+    getRelationships(entityId) {
+      return (data.relationships || []).filter(r => r.fromId === entityId || r.toId === entityId);
+    },
+
+    getCollaborations(entityId) {
+      return (data.collaborations || []).filter(c => c.entityIdA === entityId || c.entityIdB === entityId);
+    }
+  };
+}
+
+/**
+ * Default data source serving the bundled mock data
+ */
+export const mockDataSource = createInMemoryDataSource({
+  authors: mockAuthors,
+  institutions: mockInstitutions,
+  journals: mockJournals,
+  trends: mockTrends,
+  relationships: mockRelationships,
+  collaborations: mockCollaborations
+});
@@ -1,4 +1,4 @@
-import { Author, Institution, Journal } from '../types';
+import { Author, Collaboration, Institution, Journal, Relationship, TrendSeries } from '../types';
 
 /**
  * Mock author data
@@ -8,6 +8,7 @@ export const mockAuthors: Author[] = [
     id: 'auth_001',
     name: 'Dr. Sarah Chen',
     affiliation: 'MIT',
+    period: { start: 2019, end: 2023 },
     metrics: {
       publications: 156,
       citations: 4823,
@@ -24,6 +25,7 @@ export const mockAuthors: Author[] = [
     id: 'auth_002',
     name: 'Prof. James Anderson',
     affiliation: 'Stanford University',
+    period: { start: 2019, end: 2023 },
     metrics: {
       publications: 203,
       citations: 8912,
@@ -40,6 +42,7 @@ export const mockAuthors: Author[] = [
     id: 'auth_003',
     name: 'Dr. Maria Rodriguez',
     affiliation: 'Cambridge University',
+    period: { start: 2019, end: 2023 },
     metrics: {
       publications: 89,
       citations: 2134,
@@ -62,6 +65,7 @@ export const mockInstitutions: Institution[] = [
     id: 'inst_001',
     name: 'Massachusetts Institute of Technology',
     country: 'United States',
+    period: { start: 2019, end: 2023 },
     metrics: {
       publications: 12456,
       citations: 342891,
@@ -74,6 +78,7 @@ export const mockInstitutions: Institution[] = [
     id: 'inst_002',
     name: 'University of Oxford',
     country: 'United Kingdom',
+    period: { start: 2019, end: 2023 },
     metrics: {
       publications: 15234,
       citations: 412567,
@@ -86,6 +91,7 @@ export const mockInstitutions: Institution[] = [
     id: 'inst_003',
     name: 'ETH Zurich',
     country: 'Switzerland',
+    period: { start: 2019, end: 2023 },
     metrics: {
       publications: 8923,
       citations: 198234,
@@ -93,6 +99,32 @@ export const mockInstitutions: Institution[] = [
       fieldWeightedCitationImpact: 2.56,
       academicCorporateCollaboration: 0.31
     }
+  },
+  {
+    id: 'inst_004',
+    name: 'Stanford University',
+    country: 'United States',
+    period: { start: 2019, end: 2023 },
+    metrics: {
+      publications: 11234,
+      citations: 389012,
+      collaborationRate: 0.66,
+      fieldWeightedCitationImpact: 2.95,
+      academicCorporateCollaboration: 0.27
+    }
+  },
+  {
+    id: 'inst_005',
+    name: 'University of Cambridge',
+    country: 'United Kingdom',
+    period: { start: 2019, end: 2023 },
+    metrics: {
+      publications: 13876,
+      citations: 376543,
+      collaborationRate: 0.74,
+      fieldWeightedCitationImpact: 2.78,
+      academicCorporateCollaboration: 0.16
+    }
   }
 ];
 
@@ -104,6 +136,7 @@ export const mockJournals: Journal[] = [
     id: 'jour_001',
     name: 'Nature',
     publisher: 'Springer Nature',
+    period: { start: 2019, end: 2023 },
     metrics: {
       citesPerDoc: 42.3,
       sjr: 14.23,
@@ -115,6 +148,7 @@ export const mockJournals: Journal[] = [
     id: 'jour_002',
     name: 'Science',
     publisher: 'AAAS',
+    period: { start: 2019, end: 2023 },
     metrics: {
       citesPerDoc: 38.7,
       sjr: 13.45,
@@ -126,6 +160,7 @@ export const mockJournals: Journal[] = [
     id: 'jour_003',
     name: 'Cell',
     publisher: 'Elsevier',
+    period: { start: 2019, end: 2023 },
     metrics: {
       citesPerDoc: 35.2,
       sjr: 12.89,
@@ -136,28 +171,155 @@ export const mockJournals: Journal[] = [
 ];
 
 /**
- * Mock trend data (publications over time)
+ * Mock trend data, keyed by entity id and then metric
  */
-export const mockTrends: Record<string, { year: number; value: number }[]> = {
-  'auth_001': [
-    { year: 2019, value: 12 },
-    { year: 2020, value: 15 },
-    { year: 2021, value: 18 },
-    { year: 2022, value: 22 },
-    { year: 2023, value: 19 }
-  ],
-  'inst_001': [
-    { year: 2019, value: 11234 },
-    { year: 2020, value: 11892 },
-    { year: 2021, value: 12156 },
-    { year: 2022, value: 12389 },
-    { year: 2023, value: 12456 }
-  ],
-  'jour_001': [
-    { year: 2019, value: 892 },
-    { year: 2020, value: 923 },
-    { year: 2021, value: 945 },
-    { year: 2022, value: 978 },
-    { year: 2023, value: 1012 }
-  ]
+export const mockTrends: Record<string, TrendSeries> = {
+  'auth_001': {
+    publications: [
+      { year: 2019, value: 12 },
+      { year: 2020, value: 15 },
+      { year: 2021, value: 18 },
+      { year: 2022, value: 22 },
+      { year: 2023, value: 19 }
+    ],
+    citations: [
+      { year: 2019, value: 612 },
+      { year: 2020, value: 748 },
+      { year: 2021, value: 903 },
+      { year: 2022, value: 1087 },
+      { year: 2023, value: 1154 }
+    ],
+    hIndex: [
+      { year: 2019, value: 33 },
+      { year: 2020, value: 35 },
+      { year: 2021, value: 38 },
+      { year: 2022, value: 40 },
+      { year: 2023, value: 42 }
+    ],
+    fieldWeightedCitationImpact: [
+      { year: 2019, value: 2.01 },
+      { year: 2020, value: 2.15 },
+      { year: 2021, value: 2.28 },
+      { year: 2022, value: 2.41 },
+      { year: 2023, value: 2.34 }
+    ],
+    'outputsInTopCitationPercentiles.top1': [
+      { year: 2019, value: 1 },
+      { year: 2020, value: 2 },
+      { year: 2021, value: 2 },
+      { year: 2022, value: 4 },
+      { year: 2023, value: 3 }
+    ]
+  },
+  'auth_002': {
+    publications: [
+      { year: 2019, value: 21 },
+      { year: 2020, value: 19 },
+      { year: 2021, value: 24 },
+      { year: 2022, value: 26 },
+      { year: 2023, value: 25 }
+    ],
+    citations: [
+      { year: 2019, value: 1312 },
+      { year: 2020, value: 1459 },
+      { year: 2021, value: 1688 },
+      { year: 2022, value: 1904 },
+      { year: 2023, value: 2011 }
+    ]
+  },
+  'inst_001': {
+    publications: [
+      { year: 2019, value: 11234 },
+      { year: 2020, value: 11892 },
+      { year: 2021, value: 12156 },
+      { year: 2022, value: 12389 },
+      { year: 2023, value: 12456 }
+    ],
+    citations: [
+      { year: 2019, value: 61234 },
+      { year: 2020, value: 64876 },
+      { year: 2021, value: 68912 },
+      { year: 2022, value: 71045 },
+      { year: 2023, value: 76824 }
+    ],
+    fieldWeightedCitationImpact: [
+      { year: 2019, value: 2.71 },
+      { year: 2020, value: 2.76 },
+      { year: 2021, value: 2.84 },
+      { year: 2022, value: 2.87 },
+      { year: 2023, value: 2.89 }
+    ]
+  },
+  'jour_001': {
+    publications: [
+      { year: 2019, value: 892 },
+      { year: 2020, value: 923 },
+      { year: 2021, value: 945 },
+      { year: 2022, value: 978 },
+      { year: 2023, value: 1012 }
+    ],
+    citesPerDoc: [
+      { year: 2019, value: 39.8 },
+      { year: 2020, value: 40.6 },
+      { year: 2021, value: 41.9 },
+      { year: 2022, value: 42.0 },
+      { year: 2023, value: 42.3 }
+    ],
+    sjr: [
+      { year: 2019, value: 13.72 },
+      { year: 2020, value: 13.91 },
+      { year: 2021, value: 14.05 },
+      { year: 2022, value: 14.18 },
+      { year: 2023, value: 14.23 }
+    ]
+  }
 };
+
+/**
+ * Mock relationships between authors, institutions and journals
+ */
+export const mockRelationships: Relationship[] = [
+  { type: 'affiliation', fromId: 'auth_001', toId: 'inst_003', startYear: 2011, endYear: 2015 },
+  { type: 'affiliation', fromId: 'auth_001', toId: 'inst_001', startYear: 2016 },
+  { type: 'affiliation', fromId: 'auth_002', toId: 'inst_004', startYear: 2008 },
+  { type: 'affiliation', fromId: 'auth_003', toId: 'inst_002', startYear: 2012, endYear: 2017 },
+  { type: 'affiliation', fromId: 'auth_003', toId: 'inst_005', startYear: 2018 },
+
+  { type: 'authorJournal', fromId: 'auth_001', toId: 'jour_001', publications: 8 },
+  { type: 'authorJournal', fromId: 'auth_001', toId: 'jour_002', publications: 5 },
+  { type: 'authorJournal', fromId: 'auth_001', toId: 'jour_003', publications: 2 },
+  { type: 'authorJournal', fromId: 'auth_002', toId: 'jour_002', publications: 11 },
+  { type: 'authorJournal', fromId: 'auth_002', toId: 'jour_001', publications: 7 },
+  { type: 'authorJournal', fromId: 'auth_003', toId: 'jour_003', publications: 6 },
+  { type: 'authorJournal', fromId: 'auth_003', toId: 'jour_001', publications: 1 },
+
+  { type: 'institutionJournal', fromId: 'inst_001', toId: 'jour_001', publications: 1210 },
+  { type: 'institutionJournal', fromId: 'inst_001', toId: 'jour_002', publications: 980 },
+  { type: 'institutionJournal', fromId: 'inst_001', toId: 'jour_003', publications: 640 },
+  { type: 'institutionJournal', fromId: 'inst_002', toId: 'jour_001', publications: 1342 },
+  { type: 'institutionJournal', fromId: 'inst_002', toId: 'jour_003', publications: 715 },
+  { type: 'institutionJournal', fromId: 'inst_003', toId: 'jour_001', publications: 588 },
+  { type: 'institutionJournal', fromId: 'inst_004', toId: 'jour_002', publications: 1105 },
+  { type: 'institutionJournal', fromId: 'inst_005', toId: 'jour_003', publications: 802 }
+];
+
+/**
+ * Mock co-authorship counts per year
+ */
+export const mockCollaborations: Collaboration[] = [
+  { entityType: 'author', entityIdA: 'auth_001', entityIdB: 'auth_002', year: 2020, publications: 2 },
+  { entityType: 'author', entityIdA: 'auth_001', entityIdB: 'auth_002', year: 2021, publications: 3 },
+  { entityType: 'author', entityIdA: 'auth_001', entityIdB: 'auth_002', year: 2022, publications: 1 },
+  { entityType: 'author', entityIdA: 'auth_001', entityIdB: 'auth_003', year: 2021, publications: 1 },
+  { entityType: 'author', entityIdA: 'auth_001', entityIdB: 'auth_003', year: 2023, publications: 2 },
+  { entityType: 'author', entityIdA: 'auth_002', entityIdB: 'auth_003', year: 2019, publications: 1 },
+
+  { entityType: 'institution', entityIdA: 'inst_001', entityIdB: 'inst_004', year: 2021, publications: 412 },
+  { entityType: 'institution', entityIdA: 'inst_001', entityIdB: 'inst_004', year: 2022, publications: 437 },
+  { entityType: 'institution', entityIdA: 'inst_001', entityIdB: 'inst_002', year: 2021, publications: 188 },
+  { entityType: 'institution', entityIdA: 'inst_001', entityIdB: 'inst_002', year: 2022, publications: 203 },
+  { entityType: 'institution', entityIdA: 'inst_001', entityIdB: 'inst_003', year: 2022, publications: 96 },
+  { entityType: 'institution', entityIdA: 'inst_002', entityIdB: 'inst_005', year: 2021, publications: 356 },
+  { entityType: 'institution', entityIdA: 'inst_002', entityIdB: 'inst_005', year: 2022, publications: 371 },
+  { entityType: 'institution', entityIdA: 'inst_004', entityIdB: 'inst_005', year: 2022, publications: 74 }
+];
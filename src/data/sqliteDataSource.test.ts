@@ -0,0 +1,147 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import initSqlJs from 'sql.js';
+import os from 'os';
+import path from 'path';
+import { openSqliteDataSource, SqliteDataSource } from './sqliteDataSource';
+import { mockAuthors, mockCollaborations, mockInstitutions, mockJournals, mockRelationships, mockTrends } from './mockData';
+import { mockDataSource } from './inMemoryDataSource';
+import { getTopEntities, searchEntities } from '../queries';
+
+const mockData = {
+  authors: mockAuthors,
+  institutions: mockInstitutions,
+  journals: mockJournals,
+  trends: mockTrends,
+  relationships: mockRelationships,
+  collaborations: mockCollaborations
+};
+
+let store: SqliteDataSource | undefined;
+let directory: string | undefined;
+
+afterEach(() => {
+  store?.close();
+  store = undefined;
+  if (directory) fs.rmSync(directory, { recursive: true, force: true });
+  directory = undefined;
+});
+
+async function openMockStore(): Promise<SqliteDataSource> {
+  store = await openSqliteDataSource();
+  store.importData(mockData);
+  return store;
+}
+
+describe('openSqliteDataSource', () => {
+  it('should round-trip entities including nested metrics', async () => {
+    const db = await openMockStore();
+    expect(db.getEntity('author', 'auth_001')).toEqual(mockAuthors[0]);
+    expect(db.getEntity('institution', 'inst_002')).toEqual(mockInstitutions[1]);
+    expect(db.getEntity('journal', 'jour_003')).toEqual(mockJournals[2]);
+    expect(db.getEntity('author', 'nonexistent')).toBeNull();
+  });
+
+  it('should omit optional fields stored as NULL', async () => {
+    const db = await openSqliteDataSource();
+    store = db;
+    const { affiliation, ...unaffiliated } = mockAuthors[0];
+    db.importData({ authors: [unaffiliated], institutions: [], journals: [], trends: {} });
+    expect(db.getEntity('author', 'auth_001')).not.toHaveProperty('affiliation');
+  });
+
+  it('should match the in-memory data source for search and ranking', async () => {
+    const db = await openMockStore();
+    for (const query of ['chen', 'University', '', 'xyz123notfound']) {
+      expect(searchEntities({ entityType: 'institution', query, limit: 10 }, db))
+        .toEqual(searchEntities({ entityType: 'institution', query, limit: 10 }, mockDataSource));
+    }
+    for (const metric of ['citations', 'hIndex', 'outputsInTopCitationPercentiles.top5', 'unknownMetric']) {
+      expect(getTopEntities({ entityType: 'author', metric, limit: 2 }, db))
+        .toEqual(getTopEntities({ entityType: 'author', metric, limit: 2 }, mockDataSource));
+    }
+  });
+
+  it('should report the latest period end across entity types', async () => {
+    const db = await openSqliteDataSource();
+    store = db;
+    expect(db.latestPeriodEnd()).toBeNull();
+
+    db.importData({ ...mockData, journals: [{ ...mockJournals[0], period: { start: 2020, end: 2024 } }] });
+    expect(db.latestPeriodEnd()).toBe(2024);
+    expect(mockDataSource.latestPeriodEnd()).toBe(2023);
+  });
+
+  it('should find entities by the prefix of a name word or acronym, like the in-memory data source', async () => {
+    const db = await openMockStore();
+    for (const [entityType, query] of [['institution', 'univ'], ['institution', 'MIT'], ['author', 'Rodrí'], ['journal', 'ture'], ['author', '']] as const) {
+      expect(db.searchEntities(entityType, query, 10)).toEqual(mockDataSource.searchEntities(entityType, query, 10));
+    }
+    expect(db.searchEntities('institution', 'oxf', 10).map(e => e.id)).toEqual(['inst_002']);
+    expect(db.searchEntities('institution', 'mit', 10).map(e => e.id)).toEqual(['inst_001']);
+    expect(db.searchEntities('author', '%', 10)).toEqual([]);
+    expect(db.searchEntities('author', '_', 10)).toEqual([]);
+  });
+
+  it('should return trends per metric ordered by year', async () => {
+    const db = await openMockStore();
+    expect(db.getTrend('auth_001', 'publications')).toEqual(mockTrends.auth_001.publications);
+    expect(db.getTrend('auth_001', 'hIndex')).toEqual(mockTrends.auth_001.hIndex);
+    expect(db.getTrend('auth_001', 'sjr')).toBeNull();
+    expect(db.getTrend('nonexistent', 'publications')).toBeNull();
+    expect(db.getTrendMetrics('jour_001')).toEqual(['citesPerDoc', 'publications', 'sjr']);
+  });
+
+  it('should migrate single-series trends to publications', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scival-sqlite-'));
+    const filename = path.join(directory, 'scival.db');
+
+    const SQL = await initSqlJs();
+    const legacy = new SQL.Database();
+    // Only the tables later migrations touch; entity columns are irrelevant here
+    legacy.exec(`
+      CREATE TABLE authors (id TEXT PRIMARY KEY);
+      CREATE TABLE institutions (id TEXT PRIMARY KEY);
+      CREATE TABLE journals (id TEXT PRIMARY KEY);
+      CREATE TABLE trends (entity_id TEXT NOT NULL, year INTEGER NOT NULL, value REAL NOT NULL, PRIMARY KEY (entity_id, year));
+      INSERT INTO trends VALUES ('auth_001', 2020, 15);
+      PRAGMA user_version = 1;
+    `);
+    fs.writeFileSync(filename, Buffer.from(legacy.export()));
+    legacy.close();
+
+    store = await openSqliteDataSource({ filename });
+    expect(store.getTrend('auth_001', 'publications')).toEqual([{ year: 2020, value: 15 }]);
+  });
+
+  it('should return relationships at either end of an entity', async () => {
+    const db = await openMockStore();
+    expect(db.getRelationships('auth_003')).toEqual(mockDataSource.getRelationships('auth_003'));
+    expect(db.getRelationships('jour_002')).toEqual(mockDataSource.getRelationships('jour_002'));
+  });
+
+  it('should replace relationships on re-import instead of duplicating them', async () => {
+    const db = await openMockStore();
+    db.importData({ authors: [], institutions: [], journals: [], trends: {}, relationships: mockRelationships });
+    expect(db.getRelationships('auth_001')).toHaveLength(mockDataSource.getRelationships('auth_001').length);
+  });
+
+  it('should return collaborations involving an entity', async () => {
+    const db = await openMockStore();
+    expect(db.getCollaborations('auth_003')).toEqual(mockDataSource.getCollaborations('auth_003'));
+    expect(db.getCollaborations('inst_005')).toEqual(mockDataSource.getCollaborations('inst_005'));
+  });
+
+  it('should persist to and reopen from a file', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scival-sqlite-'));
+    const filename = path.join(directory, 'scival.db');
+
+    const first = await openSqliteDataSource({ filename });
+    first.importData(mockData);
+    first.close();
+
+    store = await openSqliteDataSource({ filename });
+    expect(store.listEntities('journal')).toHaveLength(3);
+    expect(store.getEntity('author', 'auth_002')?.name).toBe('Prof. James Anderson');
+  });
+});
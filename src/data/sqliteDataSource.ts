@@ -0,0 +1,468 @@
+import fs from 'fs';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { Collaboration, Entity, EntityType, Relationship, RelationshipType } from '../types';
+import { foldText, searchTerms } from '../search';
+import { DataSource } from './dataSource';
+import { InMemoryData } from './inMemoryDataSource';
+
+/**
+ * Schema migrations, applied in order. `PRAGMA user_version` records how many
+ * have run, so only append to this list — never edit a shipped migration.
+ */
+const migrations: string[] = [
+  `
+  CREATE TABLE authors (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL COLLATE NOCASE,
+    affiliation TEXT,
+    publications REAL NOT NULL,
+    citations REAL NOT NULL,
+    h_index REAL NOT NULL,
+    fwci REAL NOT NULL,
+    top1 REAL NOT NULL,
+    top5 REAL NOT NULL,
+    top10 REAL NOT NULL
+  );
+  CREATE INDEX authors_name ON authors (name);
+  CREATE INDEX authors_publications ON authors (publications DESC);
+  CREATE INDEX authors_citations ON authors (citations DESC);
+  CREATE INDEX authors_h_index ON authors (h_index DESC);
+  CREATE INDEX authors_fwci ON authors (fwci DESC);
+  CREATE INDEX authors_top1 ON authors (top1 DESC);
+  CREATE INDEX authors_top5 ON authors (top5 DESC);
+  CREATE INDEX authors_top10 ON authors (top10 DESC);
+
+  CREATE TABLE institutions (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL COLLATE NOCASE,
+    country TEXT NOT NULL,
+    publications REAL NOT NULL,
+    citations REAL NOT NULL,
+    collaboration_rate REAL NOT NULL,
+    fwci REAL NOT NULL,
+    academic_corporate_collaboration REAL NOT NULL
+  );
+  CREATE INDEX institutions_name ON institutions (name);
+  CREATE INDEX institutions_publications ON institutions (publications DESC);
+  CREATE INDEX institutions_citations ON institutions (citations DESC);
+  CREATE INDEX institutions_collaboration_rate ON institutions (collaboration_rate DESC);
+  CREATE INDEX institutions_fwci ON institutions (fwci DESC);
+  CREATE INDEX institutions_academic_corporate_collaboration ON institutions (academic_corporate_collaboration DESC);
+
+  CREATE TABLE journals (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL COLLATE NOCASE,
+    publisher TEXT NOT NULL,
+    cites_per_doc REAL NOT NULL,
+    sjr REAL NOT NULL,
+    snip REAL NOT NULL,
+    percent_cited REAL NOT NULL
+  );
+  CREATE INDEX journals_name ON journals (name);
+  CREATE INDEX journals_cites_per_doc ON journals (cites_per_doc DESC);
+  CREATE INDEX journals_sjr ON journals (sjr DESC);
+  CREATE INDEX journals_snip ON journals (snip DESC);
+  CREATE INDEX journals_percent_cited ON journals (percent_cited DESC);
+
+  CREATE TABLE trends (
+    entity_id TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    value REAL NOT NULL,
+    PRIMARY KEY (entity_id, year)
+  );
+
+  -- Name words and acronyms for prefix search (see searchTerms)
+  CREATE TABLE search_terms (
+    entity_type TEXT NOT NULL,
+    term TEXT NOT NULL COLLATE NOCASE,
+    entity_id TEXT NOT NULL,
+    PRIMARY KEY (entity_type, term, entity_id)
+  );
+  `,
+  // Trends are stored per metric; existing series were publication counts
+  `
+  CREATE TABLE trends_by_metric (
+    entity_id TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    value REAL NOT NULL,
+    PRIMARY KEY (entity_id, metric, year)
+  );
+  INSERT INTO trends_by_metric (entity_id, metric, year, value)
+    SELECT entity_id, 'publications', year, value FROM trends;
+  DROP TABLE trends;
+  ALTER TABLE trends_by_metric RENAME TO trends;
+  `,
+  // Years covered by each entity's metrics
+  `
+  ALTER TABLE authors ADD COLUMN period_start INTEGER;
+  ALTER TABLE authors ADD COLUMN period_end INTEGER;
+  ALTER TABLE institutions ADD COLUMN period_start INTEGER;
+  ALTER TABLE institutions ADD COLUMN period_end INTEGER;
+  ALTER TABLE journals ADD COLUMN period_start INTEGER;
+  ALTER TABLE journals ADD COLUMN period_end INTEGER;
+  `,
+  `
+  CREATE TABLE relationships (
+    id INTEGER PRIMARY KEY,
+    type TEXT NOT NULL,
+    from_id TEXT NOT NULL,
+    to_id TEXT NOT NULL,
+    start_year INTEGER,
+    end_year INTEGER,
+    publications REAL
+  );
+  CREATE INDEX relationships_from ON relationships (from_id);
+  CREATE INDEX relationships_to ON relationships (to_id);
+  `,
+  `
+  CREATE TABLE collaborations (
+    entity_type TEXT NOT NULL,
+    entity_id_a TEXT NOT NULL,
+    entity_id_b TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    publications REAL NOT NULL,
+    PRIMARY KEY (entity_id_a, entity_id_b, year)
+  );
+  CREATE INDEX collaborations_b ON collaborations (entity_id_b);
+  `
+];
+
+/**
+ * Mapping between a table column and a (dotted) property path on the entity
+ */
+interface ColumnSpec {
+  column: string;
+  path: string;
+}
+
+interface TableSpec {
+  table: string;
+  columns: ColumnSpec[];
+}
+
+const tables: Record<EntityType, TableSpec> = {
+  author: {
+    table: 'authors',
+    columns: [
+      { column: 'id', path: 'id' },
+      { column: 'name', path: 'name' },
+      { column: 'affiliation', path: 'affiliation' },
+      { column: 'period_start', path: 'period.start' },
+      { column: 'period_end', path: 'period.end' },
+      { column: 'publications', path: 'metrics.publications' },
+      { column: 'citations', path: 'metrics.citations' },
+      { column: 'h_index', path: 'metrics.hIndex' },
+      { column: 'fwci', path: 'metrics.fieldWeightedCitationImpact' },
+      { column: 'top1', path: 'metrics.outputsInTopCitationPercentiles.top1' },
+      { column: 'top5', path: 'metrics.outputsInTopCitationPercentiles.top5' },
+      { column: 'top10', path: 'metrics.outputsInTopCitationPercentiles.top10' }
+    ]
+  },
+  institution: {
+    table: 'institutions',
+    columns: [
+      { column: 'id', path: 'id' },
+      { column: 'name', path: 'name' },
+      { column: 'country', path: 'country' },
+      { column: 'period_start', path: 'period.start' },
+      { column: 'period_end', path: 'period.end' },
+      { column: 'publications', path: 'metrics.publications' },
+      { column: 'citations', path: 'metrics.citations' },
+      { column: 'collaboration_rate', path: 'metrics.collaborationRate' },
+      { column: 'fwci', path: 'metrics.fieldWeightedCitationImpact' },
+      { column: 'academic_corporate_collaboration', path: 'metrics.academicCorporateCollaboration' }
+    ]
+  },
+  journal: {
+    table: 'journals',
+    columns: [
+      { column: 'id', path: 'id' },
+      { column: 'name', path: 'name' },
+      { column: 'publisher', path: 'publisher' },
+      { column: 'period_start', path: 'period.start' },
+      { column: 'period_end', path: 'period.end' },
+      { column: 'cites_per_doc', path: 'metrics.citesPerDoc' },
+      { column: 'sjr', path: 'metrics.sjr' },
+      { column: 'snip', path: 'metrics.snip' },
+      { column: 'percent_cited', path: 'metrics.percentCited' }
+    ]
+  }
+};
+
+/**
+ * A data source backed by SQLite, with write access for loading data
+ */
+export interface SqliteDataSource extends DataSource {
+  /** Insert or replace entities and trend points in one transaction */
+  importData(data: InMemoryData): void;
+  /** Write the database to its file (no-op for in-memory databases) */
+  save(): void;
+  /** Save and release the database */
+  close(): void;
+}
+
+/**
+ * Options for opening a SQLite data source
+ */
+export interface SqliteDataSourceOptions {
+  /** Database file to load and save; omit for an in-memory database */
+  filename?: string;
+}
+
+let sqlJs: ReturnType<typeof initSqlJs> | undefined;
+
+/**
+ * Open (and migrate) a SQLite database as a data source.
+ *
+ * The engine is sql.js (SQLite compiled to WebAssembly), so no native build
+ * or external service is needed. File databases are read fully into memory on
+ * open and written back by `save()`, `close()` and `importData()`.
+ */
+export async function openSqliteDataSource(options: SqliteDataSourceOptions = {}): Promise<SqliteDataSource> {
+  const SQL = await (sqlJs ??= initSqlJs());
+  const { filename } = options;
+
+  const db = filename && fs.existsSync(filename)
+    ? new SQL.Database(fs.readFileSync(filename))
+    : new SQL.Database();
+
+  migrate(db);
+
+  const save = () => {
+    if (filename) fs.writeFileSync(filename, Buffer.from(db.export()));
+  };
+
+  const selectEntities = (entityType: EntityType, where: string, params: SqlValue[]): Entity[] => {
+    const { table, columns } = tables[entityType];
+    const columnList = columns.map(c => c.column).join(', ');
+    return queryAll(db, `SELECT ${columnList} FROM ${table} ${where}`, params)
+      .map(row => toEntity(columns, row));
+  };
+
+  const indexSearchTerms = (entityType: EntityType, items: { id: string; name: string }[]) => {
+    const deleteTerms = db.prepare('DELETE FROM search_terms WHERE entity_type = ? AND entity_id = ?');
+    const insertTerm = db.prepare('INSERT OR IGNORE INTO search_terms (entity_type, term, entity_id) VALUES (?, ?, ?)');
+    for (const item of items) {
+      deleteTerms.run([entityType, item.id]);
+      for (const term of searchTerms(item.name, entityType)) {
+        insertTerm.run([entityType, term, item.id]);
+      }
+    }
+    deleteTerms.free();
+    insertTerm.free();
+  };
+
+  return {
+    getEntity(entityType, entityId) {
+      return selectEntities(entityType, 'WHERE id = ?', [entityId])[0] || null;
+    },
+
+    searchEntities(entityType, query, limit) {
+      // Terms are lowercase letters and digits, so [prefix, prefix + '{') is every term with the prefix, read
+      // from the index. LIMIT -1 is no limit.
+      const prefix = foldText(query).trim();
+      if (!/^[a-z0-9]*$/.test(prefix)) return [];
+      return selectEntities(
+        entityType,
+        'WHERE id IN (SELECT entity_id FROM search_terms WHERE entity_type = ? AND term >= ? AND term < ?) ORDER BY rowid LIMIT ?',
+        [entityType, prefix, `${prefix}{`, limit ?? -1]
+      );
+    },
+
+    listEntities(entityType) {
+      return selectEntities(entityType, 'ORDER BY rowid', []);
+    },
+
+    countEntities(entityType) {
+      return queryAll(db, `SELECT COUNT(*) AS count FROM ${tables[entityType].table}`, [])[0].count as number;
+    },
+
+    latestPeriodEnd() {
+      const union = Object.values(tables).map(({ table }) => `SELECT MAX(period_end) AS year FROM ${table}`).join(' UNION ALL ');
+      return queryAll(db, `SELECT MAX(year) AS year FROM (${union})`, [])[0].year as number | null;
+    },
+
+    rankEntities(entityType, metric, limit) {
+      // Metric names are matched against the column map, never interpolated directly. Metric columns are
+      // NOT NULL, so only an unknown metric, which every entity lacks, leaves storage order.
+      const spec = tables[entityType].columns.find(c => c.path === `metrics.${metric}`);
+      const orderBy = spec ? `${spec.column} DESC, rowid` : 'rowid';
+      return selectEntities(entityType, `ORDER BY ${orderBy} LIMIT ?`, [limit]);
+    },
+
+    getTrend(entityId, metric) {
+      const rows = queryAll(
+        db,
+        'SELECT year, value FROM trends WHERE entity_id = ? AND metric = ? ORDER BY year',
+        [entityId, metric]
+      );
+      if (rows.length === 0) return null;
+      return rows.map(row => ({ year: row.year as number, value: row.value as number }));
+    },
+
+    getTrendMetrics(entityId) {
+      return queryAll(db, 'SELECT DISTINCT metric FROM trends WHERE entity_id = ? ORDER BY metric', [entityId])
+        .map(row => row.metric as string);
+    },
+
+    getRelationships(entityId) {
+      return queryAll(
+        db,
+        'SELECT type, from_id, to_id, start_year, end_year, publications FROM relationships ' +
+        'WHERE from_id = ? OR to_id = ? ORDER BY id',
+        [entityId, entityId]
+      ).map(toRelationship);
+    },
+
+    getCollaborations(entityId) {
+      return queryAll(
+        db,
+        'SELECT entity_type, entity_id_a, entity_id_b, year, publications FROM collaborations ' +
+        'WHERE entity_id_a = ? OR entity_id_b = ? ORDER BY rowid',
+        [entityId, entityId]
+      ).map(row => ({
+        entityType: row.entity_type as Collaboration['entityType'],
+        entityIdA: row.entity_id_a as string,
+        entityIdB: row.entity_id_b as string,
+        year: row.year as number,
+        publications: row.publications as number
+      }));
+    },
+
+    importData(data) {
+      db.run('BEGIN');
+      try {
+        const entities: [EntityType, Entity[]][] = [
+          ['author', data.authors],
+          ['institution', data.institutions],
+          ['journal', data.journals]
+        ];
+        for (const [entityType, items] of entities) {
+          const { table, columns } = tables[entityType];
+          const statement = db.prepare(
+            `INSERT OR REPLACE INTO ${table} (${columns.map(c => c.column).join(', ')}) ` +
+            `VALUES (${columns.map(() => '?').join(', ')})`
+          );
+          for (const item of items) {
+            statement.run(columns.map(c => (getPath(item, c.path) ?? null) as SqlValue));
+          }
+          statement.free();
+          indexSearchTerms(entityType, items);
+        }
+
+        const trendStatement = db.prepare(
+          'INSERT OR REPLACE INTO trends (entity_id, metric, year, value) VALUES (?, ?, ?, ?)'
+        );
+        for (const [entityId, series] of Object.entries(data.trends)) {
+          for (const [metric, points] of Object.entries(series)) {
+            for (const point of points) {
+              trendStatement.run([entityId, metric, point.year, point.value]);
+            }
+          }
+        }
+        trendStatement.free();
+
+        // Relationships have no natural key; replace any row for the same link and start year
+        const deleteRelationship = db.prepare(
+          'DELETE FROM relationships WHERE type = ? AND from_id = ? AND to_id = ? AND start_year IS ?'
+        );
+        const insertRelationship = db.prepare(
+          'INSERT INTO relationships (type, from_id, to_id, start_year, end_year, publications) VALUES (?, ?, ?, ?, ?, ?)'
+        );
+        for (const r of data.relationships || []) {
+          deleteRelationship.run([r.type, r.fromId, r.toId, r.startYear ?? null]);
+          insertRelationship.run([r.type, r.fromId, r.toId, r.startYear ?? null, r.endYear ?? null, r.publications ?? null]);
+        }
+        deleteRelationship.free();
+        insertRelationship.free();
+
+        const collaborationStatement = db.prepare(
+          'INSERT OR REPLACE INTO collaborations (entity_type, entity_id_a, entity_id_b, year, publications) VALUES (?, ?, ?, ?, ?)'
+        );
+        for (const c of data.collaborations || []) {
+          collaborationStatement.run([c.entityType, c.entityIdA, c.entityIdB, c.year, c.publications]);
+        }
+        collaborationStatement.free();
+
+        db.run('COMMIT');
+      } catch (error) {
+        db.run('ROLLBACK');
+        throw error;
+      }
+      save();
+    },
+
+    save,
+
+    close() {
+      save();
+      db.close();
+    }
+  };
+}
+
+function migrate(db: Database): void {
+  const version = queryAll(db, 'PRAGMA user_version', [])[0].user_version as number;
+
+  for (let i = version; i < migrations.length; i++) {
+    db.run('BEGIN');
+    try {
+      db.exec(migrations[i]);
+      db.run(`PRAGMA user_version = ${i + 1}`);
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+function queryAll(db: Database, sql: string, params: SqlValue[]): Record<string, SqlValue>[] {
+  const statement = db.prepare(sql);
+  const rows: Record<string, SqlValue>[] = [];
+  try {
+    statement.bind(params);
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+function toEntity(columns: ColumnSpec[], row: Record<string, SqlValue>): Entity {
+  const entity: Record<string, unknown> = {};
+  for (const { column, path } of columns) {
+    if (row[column] !== null) setPath(entity, path, row[column]);
+  }
+  return entity as unknown as Entity;
+}
+
+function toRelationship(row: Record<string, SqlValue>): Relationship {
+  const relationship: Relationship = {
+    type: row.type as RelationshipType,
+    fromId: row.from_id as string,
+    toId: row.to_id as string
+  };
+  if (row.start_year !== null) relationship.startYear = row.start_year as number;
+  if (row.end_year !== null) relationship.endYear = row.end_year as number;
+  if (row.publications !== null) relationship.publications = row.publications as number;
+  return relationship;
+}
+
+function getPath(target: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), target);
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  keys.slice(0, -1).forEach(key => {
+    node = (node[key] ??= {}) as Record<string, unknown>;
+  });
+  node[keys[keys.length - 1]] = value;
+}
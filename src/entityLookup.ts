@@ -0,0 +1,65 @@
+import { DataSource } from './data/dataSource';
+import { EntityNotFoundError, EntitySuggestion, TypeMismatchError } from './errors';
+import { editDistance, findEntities } from './search';
+import { Entity, EntityType, entityTypes } from './types';
+
+/**
+ * Most suggestions offered for an unknown identifier
+ */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Identifiers this many edits away still count as close, e.g. "auth_02" for "auth_002"
+ */
+const MAX_ID_EDITS = 2;
+
+/**
+ * The type of the entity with this identifier, or null if none has it
+ */
+export function findEntityType(dataSource: DataSource, entityId: string): EntityType | null {
+  return entityTypes.find(type => dataSource.getEntity(type, entityId)) ?? null;
+}
+
+/**
+ * Entities the caller may have meant by an unknown identifier: the closest
+ * identifiers first, then entities whose name matches it (for callers that
+ * pass a name where an id belongs)
+ */
+export function suggestEntities(dataSource: DataSource, entityId: string, types: EntityType[] = entityTypes): EntitySuggestion[] {
+  const key = entityId.trim().toLowerCase();
+  if (key.length === 0) return [];
+
+  const candidates = types.flatMap(entityType => dataSource.listEntities(entityType).map(entity => ({
+    entity,
+    entityType,
+    distance: editDistance(key, entity.id.toLowerCase())
+  })));
+  const closest = Math.min(MAX_ID_EDITS, ...candidates.map(c => c.distance));
+  const closestIds = candidates
+    .filter(c => c.distance === closest)
+    .sort((a, b) => a.entity.id.localeCompare(b.entity.id));
+
+  const nameMatches = findEntities(dataSource, entityId, { entityTypes: types, limit: MAX_SUGGESTIONS });
+
+  const suggestions: EntitySuggestion[] = [];
+  for (const { entity, entityType } of [...closestIds, ...nameMatches]) {
+    if (suggestions.length === MAX_SUGGESTIONS) break;
+    if (!suggestions.some(s => s.id === entity.id)) suggestions.push({ id: entity.id, name: entity.name, entityType });
+  }
+  return suggestions;
+}
+
+/**
+ * Look up an entity, throwing TypeMismatchError if the identifier belongs to
+ * another entity type and EntityNotFoundError, with suggestions, if it belongs to none
+ */
+export function requireEntity(dataSource: DataSource, entityType: EntityType, entityId: string): Entity {
+  const entity = dataSource.getEntity(entityType, entityId);
+  if (entity) return entity;
+
+  const actualType = findEntityType(dataSource, entityId);
+  if (actualType) {
+    throw new TypeMismatchError(entityId, entityType, actualType);
+  }
+  throw new EntityNotFoundError(entityId, entityType, suggestEntities(dataSource, entityId, [entityType]));
+}
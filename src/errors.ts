@@ -0,0 +1,162 @@
+import { EntityType } from './types';
+
+/**
+ * Machine-readable reason a query failed
+ * - INVALID_PARAMETERS: parameters failed validation
+ * - FUNCTION_NOT_FOUND: no query function has that name
+ * - ENTITY_NOT_FOUND: no entity has that identifier
+ * - TYPE_MISMATCH: the identifier or parameters belong to another entity type
+ * - UNKNOWN_METRIC: the entity has no data for the metric
+ * - NO_TREND_DATA: the entity has no yearly series at all
+ * - INSUFFICIENT_DATA: too little data to compute the result, e.g. a single trend point
+ * - UNDEFINED_VALUE: a derived metric can't be computed for the entity, e.g. it divides by zero
+ * - INTERNAL_ERROR: anything else
+ */
+export type QueryErrorCode =
+  | 'INVALID_PARAMETERS'
+  | 'FUNCTION_NOT_FOUND'
+  | 'ENTITY_NOT_FOUND'
+  | 'TYPE_MISMATCH'
+  | 'UNKNOWN_METRIC'
+  | 'NO_TREND_DATA'
+  | 'INSUFFICIENT_DATA'
+  | 'UNDEFINED_VALUE'
+  | 'INTERNAL_ERROR';
+
+/**
+ * A query failure the caller can act on. `hint` says how to recover, in terms
+ * a model can follow (e.g. "Did you mean 'auth_002' (Prof. James Anderson)?").
+ */
+export class QueryError extends Error {
+  constructor(
+    public readonly code: QueryErrorCode,
+    message: string,
+    public readonly hint?: string
+  ) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+/**
+ * An entity offered in place of an identifier that doesn't exist
+ */
+export interface EntitySuggestion {
+  id: string;
+  name: string;
+  entityType: EntityType;
+}
+
+function describeSuggestions(suggestions: EntitySuggestion[]): string {
+  const described = suggestions.map(s => `'${s.id}' (${s.name})`);
+  return described.length === 1 ? described[0] : `${described.slice(0, -1).join(', ')} or ${described[described.length - 1]}`;
+}
+
+/**
+ * "an author", "a journal"
+ */
+export function withArticle(entityType: EntityType): string {
+  return `${/^[aeiou]/.test(entityType) ? 'an' : 'a'} ${entityType}`;
+}
+
+/**
+ * Thrown when no entity has the requested identifier
+ */
+export class EntityNotFoundError extends QueryError {
+  constructor(
+    public readonly entityId: string,
+    /** The type searched, or undefined if the query doesn't name one */
+    public readonly entityType: EntityType | undefined,
+    /** Close identifiers, or entities whose name matches the identifier */
+    public readonly suggestions: EntitySuggestion[] = []
+  ) {
+    super(
+      'ENTITY_NOT_FOUND',
+      `No ${entityType ?? 'entity'} with id '${entityId}'`,
+      suggestions.length > 0
+        ? `Did you mean ${describeSuggestions(suggestions)}?`
+        : `Use searchEntities to look up ${entityType ?? 'entity'} identifiers by name.`
+    );
+    this.name = 'EntityNotFoundError';
+  }
+}
+
+/**
+ * Thrown when an identifier belongs to an entity of another type
+ */
+export class TypeMismatchError extends QueryError {
+  constructor(
+    public readonly entityId: string,
+    public readonly expectedType: EntityType,
+    public readonly actualType: EntityType
+  ) {
+    super(
+      'TYPE_MISMATCH',
+      `'${entityId}' is ${withArticle(actualType)}, not ${withArticle(expectedType)}`,
+      `Retry with entityType '${actualType}'.`
+    );
+    this.name = 'TypeMismatchError';
+  }
+}
+
+/**
+ * Thrown when a query names a metric the entity has no data for
+ */
+export class UnknownMetricError extends QueryError {
+  constructor(
+    public readonly metric: string,
+    public readonly entityId: string,
+    public readonly availableMetrics: string[]
+  ) {
+    super(
+      'UNKNOWN_METRIC',
+      `Unknown metric '${metric}' for entity '${entityId}'. ` +
+      `Available metrics: ${availableMetrics.join(', ') || 'none'}`,
+      availableMetrics.length > 0 ? 'Retry with one of the availableMetrics.' : undefined
+    );
+    this.name = 'UnknownMetricError';
+  }
+}
+
+/**
+ * Thrown when a trend query names an entity without any yearly series
+ */
+export class NoTrendDataError extends QueryError {
+  constructor(public readonly entityId: string) {
+    super('NO_TREND_DATA', `No trend data for entity '${entityId}'`, "Use getMetrics for the entity's current values instead.");
+    this.name = 'NoTrendDataError';
+  }
+}
+
+/**
+ * Thrown when a derived metric can't be computed for an entity
+ */
+export class UndefinedMetricValueError extends QueryError {
+  constructor(
+    public readonly metric: string,
+    public readonly entityId: string,
+    /** Stored metrics the derived metric is computed from */
+    inputs: string[]
+  ) {
+    super(
+      'UNDEFINED_VALUE',
+      `Metric '${metric}' is undefined for entity '${entityId}': an input is missing or it divides by zero`,
+      `Query its inputs instead: ${inputs.join(', ')}.`
+    );
+    this.name = 'UndefinedMetricValueError';
+  }
+}
+
+/**
+ * Thrown at startup when a derived metric's expression is malformed or reads a field the entity type doesn't store
+ */
+export class InvalidMetricExpressionError extends Error {
+  constructor(
+    public readonly metric: string,
+    public readonly expression: string,
+    reason: string
+  ) {
+    super(`Invalid expression '${expression}' for derived metric '${metric}': ${reason}`);
+    this.name = 'InvalidMetricExpressionError';
+  }
+}
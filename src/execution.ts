@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { EntityNotFoundError, EntitySuggestion, QueryError, QueryErrorCode, UnknownMetricError } from './errors';
+import { describeResult } from './narrative';
+import { queryFunctions } from './queries';
+import { editDistance } from './search';
+import { dropNullArguments } from './toolFormats';
+
+/**
+ * Error body returned to API, MCP and model clients when a query fails
+ */
+export interface QueryErrorBody {
+  error: string;
+  code: QueryErrorCode;
+  /** How to recover, e.g. "Did you mean 'auth_002' (Prof. James Anderson)?" */
+  hint?: string;
+  details?: z.ZodIssue[];
+  availableMetrics?: string[];
+  /** Entities the caller may have meant, for ENTITY_NOT_FOUND */
+  suggestions?: EntitySuggestion[];
+}
+
+export type QueryErrorStatus = 400 | 404 | 422 | 500;
+
+/**
+ * HTTP status for each error code: 400 for requests to fix, 404 for missing
+ * functions and entities, 422 for valid requests the data can't answer
+ */
+export const queryErrorStatus: Record<QueryErrorCode, QueryErrorStatus> = {
+  INVALID_PARAMETERS: 400,
+  FUNCTION_NOT_FOUND: 404,
+  ENTITY_NOT_FOUND: 404,
+  TYPE_MISMATCH: 400,
+  UNKNOWN_METRIC: 400,
+  NO_TREND_DATA: 404,
+  INSUFFICIENT_DATA: 422,
+  UNDEFINED_VALUE: 422,
+  INTERNAL_ERROR: 500
+};
+
+/**
+ * Outcome of running a query function by name, with the HTTP status a failure maps to
+ */
+export type QueryOutcome =
+  | { success: true; result: unknown; narrative?: string }
+  | { success: false; status: QueryErrorStatus; body: QueryErrorBody };
+
+function failure(body: QueryErrorBody): QueryOutcome {
+  return { success: false, status: queryErrorStatus[body.code], body };
+}
+
+/**
+ * The function name closest to an unknown one, if it is only a typo away
+ */
+function closestFunctionName(name: string): string | undefined {
+  const [closest] = Object.keys(queryFunctions)
+    .map(candidate => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance);
+  return closest?.candidate;
+}
+
+export interface ExecuteOptions {
+  /** Also describe the result in words (see describeResult) */
+  narrative?: boolean;
+}
+
+/**
+ * Validate parameters and run a query function by name. Null parameters are
+ * treated as omitted (see dropNullArguments). The name is checked at runtime
+ * too, since batch and model clients may send anything.
+ */
+export function executeQuery(
+  functionName: unknown,
+  params: unknown,
+  dataSource: DataSource,
+  options: ExecuteOptions = {}
+): QueryOutcome {
+  if (typeof functionName !== 'string') {
+    return failure({
+      error: 'functionName must be a string',
+      code: 'FUNCTION_NOT_FOUND',
+      hint: `Available functions: ${Object.keys(queryFunctions).join(', ')}.`
+    });
+  }
+
+  const queryConfig = Object.hasOwn(queryFunctions, functionName)
+    ? queryFunctions[functionName as keyof typeof queryFunctions]
+    : undefined;
+
+  if (!queryConfig) {
+    const closest = closestFunctionName(functionName);
+    return failure({
+      error: `Function '${functionName}' not found`,
+      code: 'FUNCTION_NOT_FOUND',
+      hint: closest ? `Did you mean '${closest}'?` : `Available functions: ${Object.keys(queryFunctions).join(', ')}.`
+    });
+  }
+
+  let validatedParams: unknown;
+  let result: unknown;
+  try {
+    validatedParams = queryConfig.schema.parse(dropNullArguments(params));
+    result = queryConfig.function(validatedParams as any, dataSource);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return failure({
+        error: 'Invalid parameters',
+        code: 'INVALID_PARAMETERS',
+        hint: 'Fix the parameters listed in details and retry.',
+        details: error.errors
+      });
+    }
+    if (error instanceof QueryError) {
+      return failure({
+        error: error.message,
+        code: error.code,
+        ...(error.hint && { hint: error.hint }),
+        ...(error instanceof UnknownMetricError && { availableMetrics: error.availableMetrics }),
+        ...(error instanceof EntityNotFoundError && { suggestions: error.suggestions })
+      });
+    }
+    return failure({ error: 'Internal server error', code: 'INTERNAL_ERROR' });
+  }
+
+  if (!options.narrative) return { success: true, result };
+  try {
+    return { success: true, result, narrative: describeResult(functionName as keyof typeof queryFunctions, validatedParams, result, dataSource) };
+  } catch {
+    // The query succeeded; a narrator failing on an unusual result shouldn't turn it into an error
+    return { success: true, result };
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createApp } from './index';
+import { createInMemoryDataSource } from './data/inMemoryDataSource';
+import { mockAuthors } from './data/mockData';
+
+const fixture = createInMemoryDataSource({
+  authors: [{ ...mockAuthors[0], id: 'fx_001', name: 'Fixture Author' }],
+  institutions: [],
+  journals: [],
+  trends: { fx_001: { publications: [{ year: 2024, value: 7 }] } }
+});
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createApp({ dataSource: fixture }).listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function get(path: string) {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+async function post(path: string, body: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('createApp', () => {
+  it('should serve queries from the injected data source', async () => {
+    const { status, body } = await post('/api/query/getEntity', { entityType: 'author', entityId: 'fx_001' });
+    expect(status).toBe(200);
+    expect(body.result.name).toBe('Fixture Author');
+  });
+
+  it('should use the injected data source for batch queries', async () => {
+    const { body } = await post('/api/batch', {
+      queries: [
+        { functionName: 'getEntity', params: { entityType: 'author', entityId: 'fx_001' } },
+        { functionName: 'getEntity', params: { entityType: 'author', entityId: 'auth_001' } }
+      ]
+    });
+    expect(body.results[0].result.id).toBe('fx_001');
+    expect(body.results[1]).toMatchObject({ success: false, status: 404, code: 'ENTITY_NOT_FOUND' });
+  });
+
+  it('should report batch entries without a function name on their own', async () => {
+    const { status, body } = await post('/api/batch', {
+      queries: [{ params: {} }, { functionName: 42, params: {} }, { functionName: 'toString', params: {} }, null, 'x']
+    });
+    expect(status).toBe(200);
+    expect(body.results).toHaveLength(5);
+    for (const result of body.results) {
+      expect(result).toMatchObject({ success: false, status: 404, code: 'FUNCTION_NOT_FOUND' });
+    }
+    expect(body.results[0].error).toBe('functionName must be a string');
+  });
+
+  it('should map query errors to statuses with recovery hints', async () => {
+    const notFound = await post('/api/query/getEntity', { entityType: 'author', entityId: 'fx_01' });
+    expect(notFound.status).toBe(404);
+    expect(notFound.body).toEqual({
+      error: "No author with id 'fx_01'",
+      code: 'ENTITY_NOT_FOUND',
+      hint: "Did you mean 'fx_001' (Fixture Author)?",
+      suggestions: [{ id: 'fx_001', name: 'Fixture Author', entityType: 'author' }]
+    });
+
+    const mismatch = await post('/api/query/getMetrics', { entityType: 'institution', entityId: 'fx_001' });
+    expect(mismatch.status).toBe(400);
+    expect(mismatch.body).toMatchObject({ code: 'TYPE_MISMATCH', hint: "Retry with entityType 'author'." });
+
+    const insufficient = await post('/api/query/getTrendInsights', { entityId: 'fx_001', metric: 'publications' });
+    expect(insufficient.status).toBe(422);
+    expect(insufficient.body.code).toBe('INSUFFICIENT_DATA');
+
+    const typo = await post('/api/query/getTrends', {});
+    expect(typo.status).toBe(404);
+    expect(typo.body).toMatchObject({ code: 'FUNCTION_NOT_FOUND', hint: "Did you mean 'getTrend'?" });
+  });
+
+  it('should reject trend metrics the entity has no series for', async () => {
+    const { status, body } = await post('/api/query/getTrend', { entityId: 'fx_001', metric: 'hIndex' });
+    expect(status).toBe(400);
+    expect(body.code).toBe('UNKNOWN_METRIC');
+    expect(body.error).toContain("Unknown metric 'hIndex'");
+    expect(body.availableMetrics).toEqual(['publications']);
+  });
+
+  it('should publish the metric registry with the function definitions', async () => {
+    const { body } = await get('/api/functions');
+    expect(body.metrics.author.map((m: { name: string }) => m.name)).toContain('hIndex');
+    const compare = body.functions.find((f: { name: string }) => f.name === 'compareEntities');
+    expect(compare.parameters.properties.metric.enum).toContain('sjr');
+  });
+
+  it('should run declarative queries', async () => {
+    const { status, body } = await post('/api/dsl?narrative=true', { from: 'author', select: ['name', 'citations'] });
+    expect(status).toBe(200);
+    expect(body.result.items).toEqual([{ name: 'Fixture Author', citations: 4823 }]);
+    expect(body.narrative).toBe('The query returned 1 row: name Fixture Author, citations 4,823.');
+
+    const invalid = await post('/api/dsl', { from: 'author', select: ['sjr'] });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.details[0].path).toEqual(['select', 0]);
+  });
+
+  it('should resolve metric aliases in queries', async () => {
+    const { status, body } = await post('/api/query/getTopEntities', { entityType: 'author', metric: 'hindex', limit: 1 });
+    expect(status).toBe(200);
+    expect(body.result.items[0].id).toBe('fx_001');
+  });
+
+  it('should publish tool definitions in a provider format', async () => {
+    const { status, body } = await get('/api/functions?format=anthropic');
+    expect(status).toBe(200);
+    const getEntity = body.tools.find((t: { name: string }) => t.name === 'getEntity');
+    expect(getEntity.input_schema.required).toEqual(['entityType', 'entityId']);
+  });
+
+  it('should reject unknown tool formats', async () => {
+    const { status, body } = await get('/api/functions?format=cohere');
+    expect(status).toBe(400);
+    expect(body.formats).toEqual(['openai', 'anthropic', 'gemini', 'mcp']);
+  });
+
+  it('should treat null parameters from strict tool calls as omitted', async () => {
+    const { status, body } = await post('/api/query/getTrend', { entityId: 'fx_001', metric: 'publications', startYear: null, endYear: null });
+    expect(status).toBe(200);
+    expect(body.result).toEqual([{ year: 2024, value: 7 }]);
+  });
+
+  it('should resolve chat messages against the configured data source', async () => {
+    const { status, body } = await post('/api/chat', { message: "What is Fixture Author's h-index?" });
+    expect(status).toBe(200);
+    expect(body.suggestedQueries).toEqual([
+      { functionName: 'getMetrics', params: { entityType: 'author', entityId: 'fx_001', metricNames: ['hIndex'] } }
+    ]);
+  });
+
+  it('should reject chat messages and session ids that are not strings', async () => {
+    const message = await post('/api/chat', { message: { text: 'Tell me about Fixture Author' } });
+    expect(message.status).toBe(400);
+    expect(message.body).toEqual({ error: 'message must be a non-empty string' });
+
+    const session = await post('/api/chat', { message: 'Tell me about Fixture Author', sessionId: 42 });
+    expect(session.status).toBe(400);
+    expect(session.body).toEqual({ error: 'sessionId must be a string' });
+  });
+
+  it('should continue chat sessions and manage them', async () => {
+    const first = await post('/api/chat', { message: 'Tell me about Fixture Author' });
+    const { sessionId } = first.body;
+
+    const followUp = await post('/api/chat', { message: 'and her h-index?', sessionId, execute: true });
+    expect(followUp.body.results).toEqual([
+      expect.objectContaining({ functionName: 'getMetrics', success: true, result: { hIndex: mockAuthors[0].metrics.hIndex } })
+    ]);
+
+    expect((await get('/api/chat/sessions')).body.sessions).toContainEqual(expect.objectContaining({ id: sessionId, messageCount: 4 }));
+    expect((await get(`/api/chat/sessions/${sessionId}`)).body.queries).toHaveLength(1);
+
+    const deleted = await fetch(`${baseUrl}/api/chat/sessions/${sessionId}`, { method: 'DELETE' });
+    expect(deleted.status).toBe(204);
+    expect((await get(`/api/chat/sessions/${sessionId}`)).status).toBe(404);
+    expect((await post('/api/chat', { message: 'and citations?', sessionId })).status).toBe(404);
+  });
+
+  it('should describe results in words when asked', async () => {
+    const single = await post('/api/query/getTrend?narrative=true', { entityId: 'fx_001', metric: 'publications' });
+    expect(single.body).toEqual({ result: [{ year: 2024, value: 7 }], narrative: "Fixture Author's Scholarly Output was 7 in 2024." });
+
+    const plain = await post('/api/query/getTrend', { entityId: 'fx_001', metric: 'publications' });
+    expect(plain.body.narrative).toBeUndefined();
+
+    const batch = await post('/api/batch', { narrative: true, queries: [{ functionName: 'searchEntities', params: { entityType: 'author', query: 'fixture' } }] });
+    expect(batch.body.results[0].narrative).toBe('Found 1 author matching "fixture": Fixture Author.');
+  });
+});
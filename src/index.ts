@@ -1,210 +1,199 @@
-import express, { Request, Response } from 'express';
-import { queryFunctions } from './queries';
-import { z } from 'zod';
+import express, { Express, Request, Response } from 'express';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { createFileDataSource, loadDataDirectory, DataLoadError } from './data/fileDataSource';
+import { openSqliteDataSource } from './data/sqliteDataSource';
+import { executeQuery } from './execution';
+import { metricRegistry } from './metrics';
+import { mountMcpRoutes } from './mcp';
+import { createChatSessions, SessionStore } from './sessions';
+import { formatTools, isToolFormat, queryFunctionDefinitions, toolFormats } from './toolFormats';
 
-const app = express();
 const PORT = process.env.PORT || 3000;
 
-app.use(express.json());
-
 /**
- * Health check endpoint
+ * Options for building the API
  */
-app.get('/health', (req: Request, res: Response) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+export interface AppOptions {
+  /** Data source the query functions read from (defaults to the bundled mock data) */
+  dataSource?: DataSource;
+  /** Where chat sessions are kept (defaults to process memory) */
+  sessionStore?: SessionStore;
+  /** Idle time before a chat session expires (default 30 minutes) */
+  sessionTtlMs?: number;
+  /** Most chat sessions kept at once (default 1000) */
+  maxSessions?: number;
+}
 
 /**
- * Get OpenAPI-style function definitions for LLM function calling
+ * Build the Express app, serving queries from the given data source
  */
-app.get('/api/functions', (req: Request, res: Response) => {
-  const functions = Object.entries(queryFunctions).map(([name, config]) => ({
-    name,
-    description: config.description,
-    parameters: zodToJsonSchema(config.schema)
-  }));
-  
-  res.json({ functions });
-});
+export function createApp(options: AppOptions = {}): Express {
+  const dataSource = options.dataSource ?? mockDataSource;
+  const sessions = createChatSessions({ dataSource, store: options.sessionStore, ttlMs: options.sessionTtlMs, maxSessions: options.maxSessions });
+  const app = express();
 
-/**
- * Execute a query function
- */
-app.post('/api/query/:functionName', (req: Request, res: Response) => {
-  const { functionName } = req.params;
-  const params = req.body;
-  
-  const queryConfig = queryFunctions[functionName as keyof typeof queryFunctions];
-  
-  if (!queryConfig) {
-    return res.status(404).json({ error: `Function '${functionName}' not found` });
-  }
-  
-  try {
-    // Validate parameters
-    const validatedParams = queryConfig.schema.parse(params);
-    
-    // Execute function
-    const result = queryConfig.function(validatedParams as any);
+  app.use(express.json());
+
+  /**
+   * Health check endpoint
+   */
+  app.get('/health', (req: Request, res: Response) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  const definitions = queryFunctionDefinitions();
+
+  /**
+   * Get OpenAPI-style function definitions for LLM function calling,
+   * plus the metrics available for each entity type. With `?format=`,
+   * returns tool definitions for that provider instead.
+   */
+  app.get('/api/functions', (req: Request, res: Response) => {
+    const { format } = req.query;
+
+    if (format === undefined) {
+      return res.json({ functions: definitions, metrics: metricRegistry });
+    }
+    if (!isToolFormat(format)) {
+      return res.status(400).json({ error: `Unknown format '${format}'`, formats: toolFormats });
+    }
+
+    res.json(formatTools(format, definitions));
+  });
+
+  /**
+   * Run a query function on the request body. With `?narrative=true`, also describes the result in words.
+   */
+  const runFunction = (functionName: string, req: Request, res: Response) => {
+    const narrative = req.query.narrative === 'true';
+    const outcome = executeQuery(functionName, req.body, dataSource, { narrative });
+
+    if (!outcome.success) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+    res.json({ result: outcome.result, ...(narrative && { narrative: outcome.narrative }) });
+  };
+
+  /**
+   * Execute a query function
+   */
+  app.post('/api/query/:functionName', (req: Request, res: Response) => runFunction(req.params.functionName, req, res));
+
+  /**
+   * Run a declarative query (see runQuery): select, filter, join, aggregate
+   * and sort in one request
+   */
+  app.post('/api/dsl', (req: Request, res: Response) => runFunction('runQuery', req, res));
+
+  /**
+   * Batch query endpoint - execute multiple queries in one request.
+   * With `narrative: true`, also describes each result in words.
+   */
+  app.post('/api/batch', (req: Request, res: Response) => {
+    const { queries, narrative } = req.body;
     
-    res.json({ result });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ error: 'Invalid parameters', details: error.errors });
+    if (!Array.isArray(queries)) {
+      return res.status(400).json({ error: 'queries must be an array' });
     }
     
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+    const results = queries.map((query: unknown) => {
+      const { functionName, params } = query !== null && typeof query === 'object' ? query as Record<string, unknown> : {};
+      const outcome = executeQuery(functionName, params, dataSource, { narrative: narrative === true });
 
-/**
- * Batch query endpoint - execute multiple queries in one request
- */
-app.post('/api/batch', (req: Request, res: Response) => {
-  const { queries } = req.body;
-  
-  if (!Array.isArray(queries)) {
-    return res.status(400).json({ error: 'queries must be an array' });
-  }
-  
-  const results = queries.map((query: any) => {
-    const { functionName, params } = query;
-    const queryConfig = queryFunctions[functionName as keyof typeof queryFunctions];
+      if (outcome.success) {
+        return { success: true, result: outcome.result, ...(narrative === true && { narrative: outcome.narrative }) };
+      }
+      // The batch itself succeeds; each failure carries the status it would have had on its own
+      return { success: false, status: outcome.status, ...outcome.body };
+    });
     
-    if (!queryConfig) {
-      return { error: `Function '${functionName}' not found` };
+    res.json({ results });
+  });
+
+  /**
+   * Conversational endpoint - resolve a message to query suggestions without an LLM.
+   * Pass the returned `sessionId` back to continue the conversation, and
+   * `execute: true` to run the suggested queries.
+   */
+  app.post('/api/chat', (req: Request, res: Response) => {
+    const { message, sessionId, execute } = req.body;
+    
+    if (typeof message !== 'string' || !message) {
+      return res.status(400).json({ error: 'message must be a non-empty string' });
+    }
+    if (sessionId !== undefined && typeof sessionId !== 'string') {
+      return res.status(400).json({ error: 'sessionId must be a string' });
     }
     
-    try {
-      const validatedParams = queryConfig.schema.parse(params);
-      const result = queryConfig.function(validatedParams as any);
-      return { success: true, result };
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return { success: false, error: 'Invalid parameters', details: error.errors };
-      }
-      return { success: false, error: 'Execution failed' };
+    const reply = sessions.chat(message, { sessionId, execute: execute === true });
+    if (!reply) {
+      return res.status(404).json({ error: `Session '${sessionId}' not found` });
     }
+    res.json(reply);
   });
-  
-  res.json({ results });
-});
 
-/**
- * Conversational endpoint - simulate LLM interaction
- */
-app.post('/api/chat', (req: Request, res: Response) => {
-  const { message } = req.body;
-  
-  if (!message) {
-    return res.status(400).json({ error: 'message is required' });
-  }
-  
-  // Simple pattern matching for demo purposes
-  const lowerMessage = message.toLowerCase();
-  
-  let response = {
-    message: '',
-    suggestedQueries: [] as any[]
-  };
-  
-  if (lowerMessage.includes('compare') && lowerMessage.includes('author')) {
-    response.message = 'To compare authors, I can use the compareEntities function. Which two authors would you like to compare, and on which metric?';
-    response.suggestedQueries = [
-      {
-        functionName: 'compareEntities',
-        params: {
-          entityType: 'author',
-          entityIdA: 'auth_001',
-          entityIdB: 'auth_002',
-          metric: 'hIndex'
-        }
-      }
-    ];
-  } else if (lowerMessage.includes('search')) {
-    response.message = 'I can search for authors, institutions, or journals. What would you like to search for?';
-    response.suggestedQueries = [
-      {
-        functionName: 'searchEntities',
-        params: {
-          entityType: 'author',
-          query: 'chen',
-          limit: 5
-        }
-      }
-    ];
-  } else if (lowerMessage.includes('top')) {
-    response.message = 'I can find top entities ranked by various metrics. What type of entity and metric are you interested in?';
-    response.suggestedQueries = [
-      {
-        functionName: 'getTopEntities',
-        params: {
-          entityType: 'author',
-          metric: 'citations',
-          limit: 5
-        }
-      }
-    ];
-  } else if (lowerMessage.includes('trend')) {
-    response.message = 'I can show trends over time for any entity metric. Which entity and metric would you like to see?';
-    response.suggestedQueries = [
-      {
-        functionName: 'getTrend',
-        params: {
-          entityId: 'auth_001',
-          metric: 'publications'
-        }
-      }
-    ];
-  } else {
-    response.message = 'I can help you explore SciVal data. Try asking about:\n- Comparing authors/institutions/journals\n- Searching for entities\n- Finding top performers\n- Analyzing trends over time';
-  }
-  
-  res.json(response);
-});
+  /**
+   * Chat sessions that have not expired
+   */
+  app.get('/api/chat/sessions', (req: Request, res: Response) => {
+    res.json({ sessions: sessions.list() });
+  });
+
+  app.get('/api/chat/sessions/:sessionId', (req: Request, res: Response) => {
+    const session = sessions.get(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ error: `Session '${req.params.sessionId}' not found` });
+    }
+    res.json(session);
+  });
+
+  app.delete('/api/chat/sessions/:sessionId', (req: Request, res: Response) => {
+    if (!sessions.delete(req.params.sessionId)) {
+      return res.status(404).json({ error: `Session '${req.params.sessionId}' not found` });
+    }
+    res.status(204).end();
+  });
+
+  mountMcpRoutes(app, dataSource);
+
+  return app;
+}
+
+const app = createApp();
 
 /**
- * Convert Zod schema to JSON Schema format (simplified)
+ * Pick the data source for the standalone server from the environment
  */
-function zodToJsonSchema(schema: z.ZodTypeAny): any {
-  // This is a simplified converter - in production, use a proper library like zod-to-json-schema
-  if (schema instanceof z.ZodObject) {
-    const shape = schema.shape;
-    const properties: any = {};
-    const required: string[] = [];
-    
-    Object.entries(shape).forEach(([key, value]) => {
-      properties[key] = zodToJsonSchema(value as z.ZodTypeAny);
-      if (!(value as any).isOptional()) {
-        required.push(key);
-      }
-    });
-    
-    return {
-      type: 'object',
-      properties,
-      required: required.length > 0 ? required : undefined
-    };
-  } else if (schema instanceof z.ZodString) {
-    return { type: 'string', description: schema.description };
-  } else if (schema instanceof z.ZodNumber) {
-    return { type: 'number', description: schema.description };
-  } else if (schema instanceof z.ZodArray) {
-    return { type: 'array', items: zodToJsonSchema(schema.element), description: schema.description };
-  } else if (schema instanceof z.ZodEnum) {
-    return { type: 'string', enum: schema.options, description: schema.description };
-  } else if (schema instanceof z.ZodOptional) {
-    return zodToJsonSchema(schema.unwrap());
-  } else if (schema instanceof z.ZodDefault) {
-    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+export async function resolveDataSource(): Promise<DataSource> {
+  const dbFile = process.env.SCIVAL_DB_FILE;
+  const dataDir = process.env.SCIVAL_DATA_DIR;
+
+  if (dbFile) {
+    const store = await openSqliteDataSource({ filename: dbFile });
+    // Seed the database from exports when both are given
+    if (dataDir) {
+      const { data, errors } = loadDataDirectory(dataDir);
+      if (errors.length > 0) throw new DataLoadError(errors);
+      store.importData(data);
+    }
+    return store;
   }
-  
-  return { type: 'unknown' };
+
+  return dataDir ? createFileDataSource(dataDir) : mockDataSource;
 }
 
-app.listen(PORT, () => {
-  console.log(`SciVal LLM Data Layer API running on port ${PORT}`);
-  console.log(`OpenAPI functions available at: http://localhost:${PORT}/api/functions`);
-});
+if (require.main === module) {
+  resolveDataSource().then(dataSource => {
+    createApp({ dataSource }).listen(PORT, () => {
+      console.log(`SciVal LLM Data Layer API running on port ${PORT}`);
+      console.log(`OpenAPI functions available at: http://localhost:${PORT}/api/functions`);
+      console.log(`MCP endpoint available at: http://localhost:${PORT}/mcp`);
+    });
+  }).catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
 
 export { app };
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { getTrendInsights, getTrendInsightsSchema } from './insights';
+import { EntityNotFoundError, UnknownMetricError } from './errors';
+import { createInMemoryDataSource } from './data/inMemoryDataSource';
+
+const insights = (params: Partial<Parameters<typeof getTrendInsights>[0]> & { entityId: string; metric: string }, dataSource?: Parameters<typeof getTrendInsights>[1]) =>
+  getTrendInsights(getTrendInsightsSchema.parse(params), dataSource);
+
+describe('getTrendInsights', () => {
+  it('should compute growth, trend line and extremes', () => {
+    const result = insights({ entityId: 'auth_001', metric: 'publications' })!;
+
+    expect(result.first).toEqual({ year: 2019, value: 12 });
+    expect(result.last).toEqual({ year: 2023, value: 19 });
+    expect(result.change).toBe(7);
+    expect(result.percentChange).toBeCloseTo(58.33);
+    expect(result.cagr).toBeCloseTo(12.17);
+    expect(result.slope).toBeCloseTo(2.1);
+    expect(result.rSquared).toBeCloseTo(0.75);
+    expect(result.peak).toEqual({ year: 2022, value: 22 });
+    expect(result.trough).toEqual({ year: 2019, value: 12 });
+    expect(result.yearOverYear.map(y => [y.year, y.change])).toEqual([[2020, 3], [2021, 3], [2022, 4], [2023, -3]]);
+    expect(result.yearOverYear[3].percentChange).toBeCloseTo(-13.64);
+  });
+
+  it('should flag the 2023 drop in publications as an anomaly', () => {
+    const { anomalies, findings } = insights({ entityId: 'auth_001', metric: 'publications' })!;
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ year: 2023, value: 19, direction: 'drop' });
+    expect(anomalies[0].expectedPercentChange).toBeCloseTo(21.11);
+    expect(anomalies[0].score).toBeLessThan(-3.5);
+
+    expect(findings.map(f => f.statement)).toEqual([
+      "Dr. Sarah Chen's Scholarly Output grew from 12 in 2019 to 19 in 2023, a compound annual growth rate of +12.2%.",
+      'On a linear fit, Scholarly Output rose by 2.1 a year (R² = 0.75).',
+      'Scholarly Output peaked at 22 in 2022.',
+      'Scholarly Output was lowest at 12 in 2019.',
+      'Scholarly Output fell 13.6% in 2023 to 19, against a typical year-over-year change of +21.1%.'
+    ]);
+  });
+
+  it('should not flag ordinary year-to-year variation', () => {
+    expect(insights({ entityId: 'auth_002', metric: 'publications' })!.anomalies).toEqual([]);
+    expect(insights({ entityId: 'inst_001', metric: 'citations' })!.anomalies).toEqual([]);
+  });
+
+  it('should analyze only the requested years', () => {
+    const result = insights({ entityId: 'auth_001', metric: 'publications', startYear: 2020, endYear: 2022 })!;
+    expect([result.first.year, result.last.year]).toEqual([2020, 2022]);
+    expect(result.anomalies).toEqual([]);
+  });
+
+  it('should leave CAGR and percent change out when the series starts at zero', () => {
+    const dataSource = createInMemoryDataSource({
+      authors: [], institutions: [], journals: [],
+      trends: { x: { publications: [{ year: 2020, value: 0 }, { year: 2021, value: 4 }, { year: 2022, value: 6 }] } }
+    });
+    const result = insights({ entityId: 'x', metric: 'publications' }, dataSource)!;
+
+    expect(result.cagr).toBeNull();
+    expect(result.percentChange).toBeNull();
+    expect(result.findings[0].statement).toBe("x's publications grew from 0 in 2020 to 6 in 2022 (+6).");
+  });
+
+  it('should throw without at least two years of data', () => {
+    expect(() => insights({ entityId: 'auth_001', metric: 'publications', startYear: 2023 }))
+      .toThrow(expect.objectContaining({ code: 'INSUFFICIENT_DATA' }));
+    expect(() => insights({ entityId: 'auth_404', metric: 'publications' })).toThrow(EntityNotFoundError);
+  });
+
+  it('should throw for metrics without a stored series', () => {
+    expect(() => insights({ entityId: 'auth_002', metric: 'hIndex' })).toThrow(UnknownMetricError);
+  });
+});
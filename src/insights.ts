@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { findEntityType } from './entityLookup';
+import { QueryError } from './errors';
+import { metricNameSchema, requireMetricTrend, resolveMetric } from './metrics';
+import { formatMetricDifference, formatMetricValue } from './narrative';
+import { linearFit, median } from './statistics';
+import { TrendAnomaly, TrendFinding, TrendInsights, TrendPoint, YearOverYearChange } from './types';
+
+/**
+ * Scale that makes the median absolute deviation comparable to a standard deviation
+ */
+const MAD_SCALE = 0.6745;
+
+const percentFormat = new Intl.NumberFormat('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+function formatPercent(percent: number, signed = false): string {
+  return `${signed && percent > 0 ? '+' : ''}${percentFormat.format(percent)}%`;
+}
+
+/**
+ * Year-over-year changes that break from the series' typical change, scored
+ * by median absolute deviation so one outlier can't hide itself. Needs at
+ * least three changes to say what is typical.
+ */
+function findAnomalies(changes: YearOverYearChange[], threshold: number): TrendAnomaly[] {
+  const rated = changes.filter((c): c is YearOverYearChange & { percentChange: number } => c.percentChange !== null);
+  if (rated.length < 3) return [];
+
+  const expected = median(rated.map(c => c.percentChange));
+  const mad = median(rated.map(c => Math.abs(c.percentChange - expected)));
+  if (mad === 0) return [];
+
+  return rated.flatMap(({ year, value, percentChange }) => {
+    const score = (MAD_SCALE * (percentChange - expected)) / mad;
+    if (Math.abs(score) < threshold) return [];
+    return [{ year, value, percentChange, expectedPercentChange: expected, score, direction: score < 0 ? 'drop' as const : 'spike' as const }];
+  });
+}
+
+/**
+ * Growth rates, trend line, extremes and anomalies of an entity's metric over time
+ */
+export const getTrendInsightsSchema = z.object({
+  entityId: z.string().describe('Entity identifier'),
+  metric: metricNameSchema.describe('Metric to analyze (see getAvailableTrends for the metrics available per entity)'),
+  startYear: z.number().optional().describe('Start year (defaults to earliest available)'),
+  endYear: z.number().optional().describe('End year (defaults to latest available)'),
+  anomalyThreshold: z.number().positive().optional().default(3.5).describe(
+    'Flag years whose change is at least this many robust standard deviations from the typical year-over-year change'
+  )
+});
+
+/**
+ * Throws INSUFFICIENT_DATA if the entity has fewer than two years of data for the metric in the range
+ */
+export function getTrendInsights(
+  params: z.infer<typeof getTrendInsightsSchema>,
+  dataSource: DataSource = mockDataSource
+): TrendInsights {
+  const { entityId, metric, startYear, endYear, anomalyThreshold } = params;
+
+  const series = requireMetricTrend(dataSource, entityId, metric);
+  const points: TrendPoint[] = series
+    .filter(point => (startYear === undefined || point.year >= startYear) && (endYear === undefined || point.year <= endYear))
+    .sort((a, b) => a.year - b.year);
+  if (points.length < 2) {
+    throw new QueryError(
+      'INSUFFICIENT_DATA',
+      `'${entityId}' has ${points.length === 0 ? 'no years' : 'only one year'} of ${metric} data in the requested range`,
+      `Widen the range: ${metric} data covers ${Math.min(...series.map(p => p.year))}–${Math.max(...series.map(p => p.year))}.`
+    );
+  }
+
+  const entityType = findEntityType(dataSource, entityId);
+  const name = (entityType && dataSource.getEntity(entityType, entityId)?.name) || entityId;
+  const definition = entityType ? resolveMetric(entityType, metric) : null;
+  const label = definition?.label ?? metric;
+  const format = (value: number) => formatMetricValue(value, definition?.unit);
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const change = last.value - first.value;
+  const percentChange = first.value !== 0 ? (change / first.value) * 100 : null;
+  const cagr = first.value > 0 && last.value > 0
+    ? (Math.pow(last.value / first.value, 1 / (last.year - first.year)) - 1) * 100
+    : null;
+  const { slope, rSquared } = linearFit(points.map(point => ({ x: point.year, y: point.value })));
+  const peak = points.reduce((best, point) => (point.value > best.value ? point : best));
+  const trough = points.reduce((worst, point) => (point.value < worst.value ? point : worst));
+
+  const yearOverYear = points.slice(1).map((point, i) => {
+    const previous = points[i].value;
+    return {
+      year: point.year,
+      value: point.value,
+      change: point.value - previous,
+      percentChange: previous !== 0 ? ((point.value - previous) / previous) * 100 : null
+    };
+  });
+  const anomalies = findAnomalies(yearOverYear, anomalyThreshold);
+
+  const direction = change > 0 ? 'grew' : change < 0 ? 'declined' : 'was unchanged';
+  const rate = cagr !== null && change !== 0
+    ? `, a compound annual growth rate of ${formatPercent(cagr, true)}`
+    : change !== 0 ? ` (${change > 0 ? '+' : '-'}${formatMetricDifference(change, definition?.unit)})` : '';
+  const perYear = definition?.unit === 'count' ? formatMetricValue(Math.abs(slope), 'ratio') : formatMetricDifference(slope, definition?.unit);
+
+  const findings: TrendFinding[] = [
+    {
+      kind: 'growth',
+      statement: `${name}'s ${label} ${direction} from ${format(first.value)} in ${first.year} to ${format(last.value)} in ${last.year}${rate}.`
+    },
+    {
+      kind: 'trend',
+      statement: slope === 0
+        ? `${label} shows no linear trend.`
+        : `On a linear fit, ${label} ${slope > 0 ? 'rose' : 'fell'} by ${perYear} a year (R² = ${rSquared.toFixed(2)}).`
+    },
+    { kind: 'peak', year: peak.year, statement: `${label} peaked at ${format(peak.value)} in ${peak.year}.` },
+    { kind: 'trough', year: trough.year, statement: `${label} was lowest at ${format(trough.value)} in ${trough.year}.` },
+    ...anomalies.map(anomaly => ({
+      kind: 'anomaly' as const,
+      year: anomaly.year,
+      statement: `${label} ${anomaly.percentChange < 0 ? 'fell' : 'rose'} ${formatPercent(Math.abs(anomaly.percentChange))} in ${anomaly.year} ` +
+        `to ${format(anomaly.value)}, against a typical year-over-year change of ${formatPercent(anomaly.expectedPercentChange, true)}.`
+    }))
+  ];
+
+  return {
+    entity: { id: entityId, name },
+    metric,
+    first,
+    last,
+    change,
+    percentChange,
+    cagr,
+    slope,
+    rSquared,
+    peak,
+    trough,
+    yearOverYear,
+    anomalies,
+    findings
+  };
+}
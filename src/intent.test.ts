@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { resolveChatMessage } from './intent';
+import { createInMemoryDataSource, mockDataSource } from './data/inMemoryDataSource';
+import { mockAuthors, mockInstitutions, mockJournals } from './data/mockData';
+
+describe('resolveChatMessage', () => {
+  it.each([
+    ['Compare Sarah Chen and James Anderson on h-index', 'compareEntities',
+      { entityType: 'author', entityIdA: 'auth_001', entityIdB: 'auth_002', metric: 'hIndex' }],
+    ['Who has more citations, Chen or Anderson?', 'compareEntities',
+      { entityType: 'author', entityIdA: 'auth_001', entityIdB: 'auth_002', metric: 'citations' }],
+    ['Compare Chen, Anderson and Rodriguez on citations and h-index', 'compareMultipleEntities',
+      { entityType: 'author', entityIds: ['auth_001', 'auth_002', 'auth_003'], metrics: ['citations', 'hIndex'] }],
+    ['MIT vs Stanford by field weighted impact', 'compareEntities',
+      { entityType: 'institution', entityIdA: 'inst_001', entityIdB: 'inst_004', metric: 'fieldWeightedCitationImpact' }],
+    ['Who is the most cited author?', 'getTopEntities', { entityType: 'author', metric: 'citations', limit: 1 }],
+    ['Most cited journals', 'getTopEntities', { entityType: 'journal', metric: 'citesPerDoc' }],
+    ['Top 3 universities by FWCI', 'getTopEntities', { entityType: 'institution', metric: 'fieldWeightedCitationImpact', limit: 3 }],
+    ['top five journals by snip', 'getTopEntities', { entityType: 'journal', metric: 'snip', limit: 5 }],
+    ['Which journal has the highest SJR?', 'getTopEntities', { entityType: 'journal', metric: 'sjr', limit: 1 }],
+    ['Rank authors by top 10% outputs', 'getTopEntities', { entityType: 'author', metric: 'outputsInTopCitationPercentiles.top10' }],
+    ["How has MIT's research output changed since 2020?", 'getTrend', { entityId: 'inst_001', metric: 'publications', startYear: 2020 }],
+    ["Show Chen's publications over the past 3 years", 'getTrend', { entityId: 'auth_001', metric: 'publications', startYear: 2021, endYear: 2023 }],
+    ['Citation trend for Anderson from 2019 to 2021', 'getTrend', { entityId: 'auth_002', metric: 'citations', startYear: 2019, endYear: 2021 }],
+    ['Anderson citations per year before 2022', 'getTrend', { entityId: 'auth_002', metric: 'citations', endYear: 2021 }],
+    ['What is the SJR of Nature?', 'getMetrics', { entityType: 'journal', entityId: 'jour_001', metricNames: ['sjr'] }],
+    ["What's ETH Zürich's collaboration rate?", 'getMetrics', { entityType: 'institution', entityId: 'inst_003', metricNames: ['collaborationRate'] }],
+    ['Tell me about the University of Oxford', 'getEntity', { entityType: 'institution', entityId: 'inst_002' }],
+    ['Tell me about the Swiss Federal Institute of Technology', 'getEntity', { entityType: 'institution', entityId: 'inst_003' }],
+    ['Find authors named Rodríguez', 'searchEntities', { entityType: 'author', query: 'rodriguez' }],
+    ['Search for stanford', 'searchEntities', { entityType: 'institution', query: 'stanford' }],
+    ['Search for something', 'searchEntities', { query: 'something' }],
+    ["Who are Sarah Chen's collaborators between 2020 and 2022?", 'getEntityCollaborationNetwork',
+      { entityType: 'author', entityId: 'auth_001', startYear: 2020, endYear: 2022 }]
+  ])('should resolve "%s" to %s', (message, functionName, params) => {
+    const resolution = resolveChatMessage(message);
+    expect(resolution.clarification).toBeUndefined();
+    expect(resolution.suggestedQueries).toEqual([{ functionName, params }]);
+  });
+
+  it.each([
+    ['Compare Oxford and Cambridge', /Which metric should I compare University of Oxford and University of Cambridge on\?/],
+    ['Compare authors on h-index', /Which authors would you like to compare\?/],
+    ['Compare MIT and Nature on citations', /same type.*Massachusetts Institute of Technology is an institution and Nature is a journal/],
+    ['Top authors', /Which metric should I rank authors by\?/],
+    ['Show the trend', /Whose trend would you like to see\?/],
+    ["What's the h-index of Cell?", /hIndex isn't available for journals.*citesPerDoc, sjr, snip, percentCited/]
+  ])('should ask for clarification on "%s"', (message, clarification) => {
+    const resolution = resolveChatMessage(message);
+    expect(resolution.suggestedQueries).toEqual([]);
+    expect(resolution.clarification).toMatch(clarification);
+    expect(resolution.message).toBe(resolution.clarification);
+  });
+
+  it('should report the resolved intent', () => {
+    const { intent } = resolveChatMessage('Compare MIT and Stanford on citations from 2020 to 2022');
+    expect(intent).toEqual({
+      operation: 'compare',
+      entityType: 'institution',
+      entities: [
+        { id: 'inst_001', name: 'Massachusetts Institute of Technology', entityType: 'institution', mention: 'mit' },
+        { id: 'inst_004', name: 'Stanford University', entityType: 'institution', mention: 'stanford' }
+      ],
+      metrics: ['citations'],
+      startYear: 2020,
+      endYear: 2022
+    });
+  });
+
+  it('should only match single-word journal names when capitalized', () => {
+    expect(resolveChatMessage('Tell me about Cell').suggestedQueries).toEqual([
+      { functionName: 'getEntity', params: { entityType: 'journal', entityId: 'jour_003' } }
+    ]);
+    expect(resolveChatMessage('tell me about cell biology').intent.entities).toEqual([]);
+  });
+
+  it('should ask which entity an ambiguous name means', () => {
+    const dataSource = createInMemoryDataSource({
+      authors: [...mockAuthors, { ...mockAuthors[0], id: 'auth_004', name: 'Dr. Wei Chen' }],
+      institutions: mockInstitutions,
+      journals: mockJournals,
+      trends: {}
+    });
+
+    const ambiguous = resolveChatMessage("Show Chen's h-index", dataSource);
+    expect(ambiguous.suggestedQueries).toEqual([]);
+    expect(ambiguous.clarification).toBe('"chen" matches more than one entity. Did you mean Dr. Sarah Chen (auth_001) or Dr. Wei Chen (auth_004)?');
+
+    expect(resolveChatMessage("Show Wei Chen's h-index", dataSource).suggestedQueries).toEqual([
+      { functionName: 'getMetrics', params: { entityType: 'author', entityId: 'auth_004', metricNames: ['hIndex'] } }
+    ]);
+  });
+
+  it('should count "last N years" back from the reference year', () => {
+    const { intent } = resolveChatMessage('Anderson publications over the last two years', mockDataSource, { referenceYear: 2030 });
+    expect([intent.startYear, intent.endYear]).toEqual([2029, 2030]);
+  });
+
+  it('should fall back to help text for unrelated messages', () => {
+    const resolution = resolveChatMessage('hello');
+    expect(resolution.intent.operation).toBe('unknown');
+    expect(resolution.suggestedQueries).toEqual([]);
+    expect(resolution.message).toMatch(/Try asking about/);
+  });
+});
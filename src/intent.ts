@@ -0,0 +1,567 @@
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { withArticle } from './errors';
+import { metricRegistry, resolveMetric } from './metrics';
+import { describeList } from './narrative';
+import { findEntities, foldText, searchTerms } from './search';
+import { Entity, EntityType, entityTypes } from './types';
+
+/**
+ * What the user asked for
+ * - compare: two or more named entities on a metric
+ * - top: ranking of an entity type by a metric
+ * - trend: a named entity's metric over time
+ * - metrics: a named entity's metric values
+ * - collaborators: a named author's or institution's co-authorship network
+ * - search: entities matching a name
+ * - entity: a named entity, with no more specific request
+ */
+export type ChatOperation = 'compare' | 'top' | 'trend' | 'metrics' | 'collaborators' | 'search' | 'entity' | 'unknown';
+
+/**
+ * An entity named in the message
+ */
+export interface ResolvedEntity {
+  id: string;
+  name: string;
+  entityType: EntityType;
+  /** Text in the message that named it */
+  mention: string;
+}
+
+/**
+ * Everything extracted from a chat message
+ */
+export interface ChatIntent {
+  operation: ChatOperation;
+  entityType?: EntityType;
+  entities: ResolvedEntity[];
+  /** Canonical metric names, in the order mentioned */
+  metrics: string[];
+  startYear?: number;
+  endYear?: number;
+  limit?: number;
+  /** Search text, for the search operation */
+  query?: string;
+}
+
+/**
+ * A fully-parameterized query function call
+ */
+export interface SuggestedQuery {
+  functionName: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Response to a chat message: queries to run, or a question to ask first
+ */
+export interface ChatResolution {
+  message: string;
+  intent: ChatIntent;
+  suggestedQueries: SuggestedQuery[];
+  /** Set when something is missing or ambiguous; no queries are suggested */
+  clarification?: string;
+}
+
+/**
+ * Earlier turns of a conversation, for pronouns ("her h-index") and
+ * follow-ups that leave things out ("and citations?", "what about Oxford?")
+ */
+export interface ChatContext {
+  /** Intent of the previous message */
+  intent: ChatIntent;
+  /** Entities referred to most recently: those named, or those the last queries returned */
+  entities: ResolvedEntity[];
+}
+
+export interface IntentOptions {
+  /** Year that "last N years" counts back from (defaults to the latest year the data covers) */
+  referenceYear?: number;
+  context?: ChatContext;
+}
+
+const operationCues: [ChatOperation, RegExp][] = [
+  ['compare', /\b(compare|comparing|comparison|vs|versus|against|difference between|more than|less than|better than)\b/],
+  ['trend', /\b(trends?|trending|over time|over the (past|last)|per year|by year|each year|history|historical|growth|grown|changed?|evolved?|trajectory)\b/],
+  ['collaborators', /\b(collaborators|co-?authors|collaborates?|collaborated|partners|network)\b/],
+  ['top', /\b(top|most|best|highest|leading|largest|biggest|rank|ranking|ranked)\b/],
+  ['search', /\b(search|find|look up|lookup|named|called|matching)\b/],
+  ['metrics', /\b(what is|what's|whats|how many|how much|metrics|stats|statistics|score)\b/],
+  ['entity', /\b(tell me about|who is|describe|profile|details)\b/]
+];
+
+/** Pronouns that refer back to one entity, or to all the last ones */
+const pronouns: Record<string, 'one' | 'all'> = {
+  he: 'one', him: 'one', his: 'one', she: 'one', her: 'one', hers: 'one', it: 'one', its: 'one',
+  they: 'all', them: 'all', their: 'all', theirs: 'all', both: 'all', these: 'all', those: 'all'
+};
+
+const entityTypeWords: Record<string, EntityType> = {
+  author: 'author', authors: 'author', researcher: 'author', researchers: 'author', scientist: 'author',
+  scientists: 'author', scholar: 'author', scholars: 'author', people: 'author', person: 'author', who: 'author',
+  institution: 'institution', institutions: 'institution', university: 'institution', universities: 'institution',
+  college: 'institution', colleges: 'institution', institute: 'institution', institutes: 'institution',
+  school: 'institution', schools: 'institution', organization: 'institution', organizations: 'institution',
+  organisation: 'institution', organisations: 'institution',
+  journal: 'journal', journals: 'journal', venue: 'journal', venues: 'journal'
+};
+
+const singularTypeWords = new Set(['author', 'researcher', 'scientist', 'scholar', 'person', 'institution',
+  'university', 'college', 'institute', 'school', 'organization', 'organisation', 'journal', 'venue', 'who']);
+
+/**
+ * Everyday phrasings of metrics, beyond the registry's aliases. Candidates
+ * are tried in order; the first that applies to the entity type wins.
+ */
+const metricCues: Record<string, string[]> = {
+  cited: ['citations', 'citesPerDoc'],
+  citation: ['citations', 'citesPerDoc'],
+  citations: ['citations', 'citesPerDoc'],
+  productive: ['publications'],
+  productivity: ['publications'],
+  publish: ['publications'],
+  published: ['publications'],
+  impact: ['fieldWeightedCitationImpact', 'sjr'],
+  impactful: ['fieldWeightedCitationImpact', 'sjr'],
+  'research output': ['publications'],
+  'industry collaboration': ['academicCorporateCollaboration'],
+  'international collaboration': ['collaborationRate']
+};
+
+const numberWords: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twenty: 20
+};
+
+/** Words that don't identify an entity on their own */
+const genericNameWords = new Set([
+  'university', 'of', 'the', 'institute', 'technology', 'college', 'school', 'and', 'for', 'in', 'at',
+  'journal', 'de', 'la', 'national', 'international', 'research', 'science', 'sciences', 'state'
+]);
+
+/**
+ * Lowercase, strip accents and possessives
+ */
+function normalize(text: string): string {
+  return foldText(text).replace(/['’]s\b/g, '');
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) ?? [];
+}
+
+function metricKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+interface MentionCandidate {
+  entity: Entity;
+  entityType: EntityType;
+}
+
+interface Mention {
+  text: string;
+  candidates: MentionCandidate[];
+}
+
+/**
+ * Entities a phrase of the message names, found by search: every word of the
+ * phrase must be a whole word of the matched name, alias or acronym, so
+ * "chen" names Sarah Chen but "che" doesn't. An exact name beats partial
+ * ones, generic words alone ("university") must make up a whole name, and
+ * single-word journal names (e.g. "Cell") only count when capitalized.
+ */
+function resolvePhrase(phrase: string, message: string, dataSource: DataSource): MentionCandidate[] {
+  const words = searchTerms(phrase, 'author');
+  if (words.length === 0) return [];
+  const generic = words.every(word => genericNameWords.has(word));
+
+  const matches = findEntities(dataSource, phrase, { limit: Infinity })
+    .filter(match => words.every(word => searchTerms(match.matchedName, match.entityType).includes(word)))
+    .filter(match => !generic || match.score === 1)
+    .filter(match =>
+      match.entityType !== 'journal' || searchTerms(match.entity.name, 'author').length > 1 ||
+      new RegExp(`\\b${phrase[0].toUpperCase()}${phrase.slice(1)}\\b`).test(message)
+    );
+  const exact = matches.filter(match => match.score === 1);
+
+  const candidates: MentionCandidate[] = [];
+  for (const { entity, entityType } of exact.length > 0 ? exact : matches) {
+    if (!candidates.some(c => c.entity.id === entity.id)) candidates.push({ entity, entityType });
+  }
+  return candidates;
+}
+
+/**
+ * Find entity mentions, longest phrases first. Returns the mentions and the
+ * token positions they cover.
+ */
+function findMentions(message: string, tokens: string[], dataSource: DataSource): { mentions: Mention[]; covered: Set<number> } {
+  const covered = new Set<number>();
+  const found: { start: number; mention: Mention }[] = [];
+  const asciiMessage = message.normalize('NFD').replace(/[̀-ͯ]/g, '');
+
+  for (let length = Math.min(6, tokens.length); length >= 1; length--) {
+    for (let start = 0; start + length <= tokens.length; start++) {
+      const positions = Array.from({ length }, (_, i) => start + i);
+      if (positions.some(p => covered.has(p))) continue;
+
+      const text = tokens.slice(start, start + length).join(' ');
+      const candidates = resolvePhrase(text, asciiMessage, dataSource);
+      if (candidates.length === 0) continue;
+
+      positions.forEach(p => covered.add(p));
+      found.push({ start, mention: { text, candidates } });
+    }
+  }
+
+  found.sort((a, b) => a.start - b.start);
+  return { mentions: found.map(f => f.mention), covered };
+}
+
+/**
+ * Registry names and aliases, keyed for matching against message phrases
+ */
+function buildMetricIndex(): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  const add = (key: string, name: string) => {
+    const names = index.get(key) ?? [];
+    if (!names.includes(name)) names.push(name);
+    index.set(key, names);
+  };
+
+  for (const entityType of entityTypes) {
+    for (const definition of metricRegistry[entityType]) {
+      add(metricKey(definition.name), definition.name);
+      add(metricKey(definition.label), definition.name);
+      definition.aliases.forEach(alias => add(metricKey(alias), definition.name));
+    }
+  }
+  for (const [cue, names] of Object.entries(metricCues)) {
+    index.set(metricKey(cue), names);
+  }
+
+  return index;
+}
+
+/**
+ * Metrics mentioned in the message, each as its candidate canonical names
+ */
+function findMetrics(message: string, tokens: string[], covered: Set<number>): string[][] {
+  const index = buildMetricIndex();
+  const mentionsPercent = /%|percent/.test(message);
+  const used = new Set<number>();
+  const found: { start: number; names: string[] }[] = [];
+
+  for (let length = Math.min(5, tokens.length); length >= 1; length--) {
+    for (let start = 0; start + length <= tokens.length; start++) {
+      const positions = Array.from({ length }, (_, i) => start + i);
+      if (positions.some(p => used.has(p) || covered.has(p))) continue;
+
+      const key = metricKey(tokens.slice(start, start + length).join(''));
+      const names = index.get(key);
+      if (!names) continue;
+      // "top 10 authors" is a ranking, not the top 10% citation percentile
+      if (/^top\d+$/.test(key) && !mentionsPercent) continue;
+
+      positions.forEach(p => used.add(p));
+      found.push({ start, names });
+    }
+  }
+
+  return found.sort((a, b) => a.start - b.start).map(f => f.names);
+}
+
+function findYears(text: string, referenceYear: number): { startYear?: number; endYear?: number } {
+  const year = '((?:19|20)\\d{2})';
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(new RegExp(`\\b(?:from|between)\\s+${year}\\s+(?:to|and|until|through|-)\\s+${year}\\b`))) ||
+      (match = text.match(new RegExp(`\\b${year}\\s*(?:-|–|to)\\s*${year}\\b`)))) {
+    const [a, b] = [Number(match[1]), Number(match[2])];
+    return { startYear: Math.min(a, b), endYear: Math.max(a, b) };
+  }
+
+  const last = text.match(/\b(?:past|last|previous)\s+(\d+|[a-z]+)\s+years?\b/);
+  if (last) {
+    const count = Number(last[1]) || numberWords[last[1]];
+    if (count) return { startYear: referenceYear - count + 1, endYear: referenceYear };
+  }
+
+  const range: { startYear?: number; endYear?: number } = {};
+  if ((match = text.match(new RegExp(`\\b(?:since|from|starting in|starting)\\s+${year}\\b`)))) range.startYear = Number(match[1]);
+  if ((match = text.match(new RegExp(`\\bafter\\s+${year}\\b`)))) range.startYear = Number(match[1]) + 1;
+  if ((match = text.match(new RegExp(`\\b(?:until|through|up to|to)\\s+${year}\\b`)))) range.endYear = Number(match[1]);
+  if ((match = text.match(new RegExp(`\\bbefore\\s+${year}\\b`)))) range.endYear = Number(match[1]) - 1;
+  if (range.startYear !== undefined || range.endYear !== undefined) return range;
+
+  if ((match = text.match(new RegExp(`\\b(?:in|during|for)\\s+${year}\\b`)))) {
+    return { startYear: Number(match[1]), endYear: Number(match[1]) };
+  }
+  return {};
+}
+
+function findLimit(text: string): number | undefined {
+  const patterns = [/\btop\s+(\d+|[a-z]+)\b(?!\s*(?:%|percent))/, /\b(\d+|[a-z]+)\s+(?:most|best|highest|leading|largest|biggest|top)\b/];
+  for (const pattern of patterns) {
+    const count = text.match(pattern)?.[1];
+    const limit = count && (Number(count) || numberWords[count]);
+    if (limit) return limit;
+  }
+  return undefined;
+}
+
+function metricLabel(entityType: EntityType, metric: string): string {
+  return resolveMetric(entityType, metric)?.label ?? metric;
+}
+
+function yearSuffix(intent: ChatIntent): string {
+  const { startYear, endYear } = intent;
+  if (startYear !== undefined && startYear === endYear) return ` in ${startYear}`;
+  if (startYear !== undefined && endYear !== undefined) return ` from ${startYear} to ${endYear}`;
+  if (startYear !== undefined) return ` since ${startYear}`;
+  if (endYear !== undefined) return ` up to ${endYear}`;
+  return '';
+}
+
+const HELP_MESSAGE = 'I can help you explore SciVal data. Try asking about:\n' +
+  '- Comparing authors/institutions/journals\n- Searching for entities\n- Finding top performers\n- Analyzing trends over time';
+
+/**
+ * Work out what a chat message asks for and turn it into query function
+ * calls, resolving named entities to ids and metric phrasings to canonical
+ * metric names. Deterministic: no model is involved.
+ */
+export function resolveChatMessage(
+  message: string,
+  dataSource: DataSource = mockDataSource,
+  options: IntentOptions = {}
+): ChatResolution {
+  const text = normalize(message);
+  const tokens = tokenize(message);
+  const { mentions, covered } = findMentions(message, tokens, dataSource);
+
+  const intent: ChatIntent = {
+    operation: 'unknown',
+    entities: [],
+    metrics: [],
+    ...findYears(text, options.referenceYear ?? dataSource.latestPeriodEnd() ?? new Date().getFullYear())
+  };
+
+  const clarify = (clarification: string): ChatResolution =>
+    ({ message: clarification, intent, suggestedQueries: [], clarification });
+
+  // Entity type named outside entity mentions ("authors", "universities"); "who" only when nothing else is
+  const typeWords = tokens.filter((token, i) => !covered.has(i) && entityTypeWords[token]);
+  const specificTypeWords = typeWords.filter(word => word !== 'who');
+  const explicitTypes = [...new Set((specificTypeWords.length > 0 ? specificTypeWords : typeWords).map(word => entityTypeWords[word]))];
+
+  // Prefer candidates of the type the message asks about ("Cambridge university" vs an author at Cambridge)
+  const candidatesFor = (mention: Mention) => {
+    const preferred = mention.candidates.filter(c => explicitTypes.includes(c.entityType));
+    return preferred.length > 0 ? preferred : mention.candidates;
+  };
+  const ambiguous = mentions.filter(mention => candidatesFor(mention).length > 1);
+
+  for (const mention of mentions) {
+    const [candidate] = candidatesFor(mention);
+    if (intent.entities.some(e => e.id === candidate.entity.id)) continue;
+    intent.entities.push({ id: candidate.entity.id, name: candidate.entity.name, entityType: candidate.entityType, mention: mention.text });
+  }
+
+  // Pronouns refer back to the last entities; a message with no operation of its own continues the last one
+  const { context } = options;
+  const pronoun = context && tokens.find((token, i) => !covered.has(i) && pronouns[token]);
+  const cue = operationCues.find(([, pattern]) => pattern.test(text))?.[0];
+  const followUp = context !== undefined && cue === undefined && context.intent.operation !== 'unknown';
+  const referents = pronoun ? context!.entities.map(e => ({ ...e, mention: pronoun })) : [];
+  if (pronoun || (followUp && (intent.entities.length === 0 || context.intent.operation === 'compare'))) {
+    // "What about Rodriguez?" after a comparison adds to it
+    const carried = pronoun ? referents : context!.entities;
+    intent.entities = [...carried.filter(e => !intent.entities.some(named => named.id === e.id)), ...intent.entities];
+  }
+  if (followUp) {
+    intent.startYear ??= context.intent.startYear;
+    intent.endYear ??= context.intent.endYear;
+  }
+
+  const entityTypesNamed = [...new Set(intent.entities.map(e => e.entityType))];
+  intent.entityType = entityTypesNamed.length === 1 ? entityTypesNamed[0] : explicitTypes.length === 1 ? explicitTypes[0] : undefined;
+  if (!intent.entityType && entityTypesNamed.length === 0 && followUp) intent.entityType = context.intent.entityType;
+
+  const metricMentions = findMetrics(text, tokens, covered);
+  if (!intent.entityType && metricMentions.length > 0) {
+    // A metric that only one entity type has (e.g. sjr) implies the type
+    const types = entityTypes.filter(type => metricMentions.every(names => names.some(name => resolveMetric(type, name))));
+    if (types.length === 1) intent.entityType = types[0];
+  }
+  const metricType = intent.entityType;
+  intent.metrics = [...new Set(metricMentions.map(names =>
+    (metricType && names.find(name => resolveMetric(metricType, name))) || names[0]
+  ))];
+
+  if (intent.metrics.length === 0 && (pronoun || followUp)) {
+    intent.metrics = context!.intent.metrics.filter(metric => !metricType || resolveMetric(metricType, metric));
+  }
+
+  intent.operation = cue ?? (followUp ? context.intent.operation : intent.entities.length > 0 ? 'entity' : 'unknown');
+  // "Who has more citations, X or Y?" names two entities without saying compare
+  if (intent.entities.length >= 2 && ['top', 'metrics', 'unknown', 'entity'].includes(intent.operation) && /\b(more|fewer|higher|lower|or)\b/.test(text)) {
+    intent.operation = 'compare';
+  }
+  // A named entity plus a metric is a lookup, not a ranking
+  if (intent.operation === 'top' && intent.entities.length === 1 && !/\btop\b|\brank/.test(text)) {
+    intent.operation = 'metrics';
+  }
+  if (intent.operation === 'entity' && intent.metrics.length > 0) {
+    intent.operation = 'metrics';
+  }
+
+  if (pronoun && pronouns[pronoun] === 'one' && referents.length > 1) {
+    return clarify(`Who do you mean by "${pronoun}": ${describeList(referents.map(e => e.name), 'or')}?`);
+  }
+  if (intent.operation !== 'search' && ambiguous.length > 0) {
+    const [mention] = ambiguous;
+    const choices = candidatesFor(mention).map(c => `${c.entity.name} (${c.entity.id})`);
+    return clarify(`"${mention.text}" matches more than one entity. Did you mean ${describeList(choices, 'or')}?`);
+  }
+
+  const unavailable = intent.entityType && intent.metrics.find(metric => !resolveMetric(intent.entityType!, metric));
+  if (unavailable && intent.operation !== 'search') {
+    const available = metricRegistry[intent.entityType!].map(m => m.name);
+    return clarify(`${unavailable} isn't available for ${intent.entityType}s. ` +
+      `Which of these did you mean: ${available.join(', ')}?`);
+  }
+
+  switch (intent.operation) {
+    case 'compare': {
+      if (intent.entities.length < 2) {
+        return clarify(`Which ${intent.entityType ? `${intent.entityType}s` : 'entities'} would you like to compare? Name at least two.`);
+      }
+      if (entityTypesNamed.length > 1) {
+        return clarify(`I can only compare entities of the same type, but ${describeList(intent.entities.map(e => `${e.name} is ${withArticle(e.entityType)}`))}.`);
+      }
+      const entityType = intent.entityType!;
+      if (intent.metrics.length === 0) {
+        return clarify(`Which metric should I compare ${describeList(intent.entities.map(e => e.name))} on? ` +
+          `Available metrics: ${metricRegistry[entityType].map(m => m.name).join(', ')}.`);
+      }
+
+      const names = describeList(intent.entities.map(e => e.name));
+      const labels = describeList(intent.metrics.map(m => metricLabel(entityType, m)));
+      const query: SuggestedQuery = intent.entities.length === 2 && intent.metrics.length === 1
+        ? {
+            functionName: 'compareEntities',
+            params: { entityType, entityIdA: intent.entities[0].id, entityIdB: intent.entities[1].id, metric: intent.metrics[0] }
+          }
+        : {
+            functionName: 'compareMultipleEntities',
+            params: { entityType, entityIds: intent.entities.map(e => e.id), metrics: intent.metrics }
+          };
+      return { message: `Comparing ${names} on ${labels}.`, intent, suggestedQueries: [query] };
+    }
+
+    case 'top': {
+      if (!intent.entityType) {
+        return clarify('Would you like the top authors, institutions or journals?');
+      }
+      const entityType = intent.entityType;
+      if (intent.metrics.length === 0) {
+        return clarify(`Which metric should I rank ${entityType}s by? Available metrics: ${metricRegistry[entityType].map(m => m.name).join(', ')}.`);
+      }
+
+      intent.limit = findLimit(text) ??
+        (typeWords.length > 0 && typeWords.every(word => singularTypeWords.has(word)) ? 1 : followUp ? context.intent.limit : undefined);
+      const metric = intent.metrics[0];
+      return {
+        message: `Ranking ${entityType}s by ${metricLabel(entityType, metric)}.`,
+        intent,
+        suggestedQueries: [{
+          functionName: 'getTopEntities',
+          params: { entityType, metric, ...(intent.limit !== undefined && { limit: intent.limit }) }
+        }]
+      };
+    }
+
+    case 'trend': {
+      if (intent.entities.length === 0) {
+        return clarify(`Whose trend would you like to see? Name ${intent.entityType ? withArticle(intent.entityType) : 'an author, institution or journal'}.`);
+      }
+      const metric = intent.metrics[0] ?? 'publications';
+      const years = {
+        ...(intent.startYear !== undefined && { startYear: intent.startYear }),
+        ...(intent.endYear !== undefined && { endYear: intent.endYear })
+      };
+      return {
+        message: `Showing ${metricLabel(intent.entities[0].entityType, metric)} over time for ${describeList(intent.entities.map(e => e.name))}${yearSuffix(intent)}.`,
+        intent,
+        suggestedQueries: intent.entities.map(e => ({ functionName: 'getTrend', params: { entityId: e.id, metric, ...years } }))
+      };
+    }
+
+    case 'collaborators': {
+      const [entity] = intent.entities;
+      if (!entity || entity.entityType === 'journal') {
+        return clarify('Whose collaborators would you like to see? Name an author or institution.');
+      }
+      return {
+        message: `Showing the collaboration network of ${entity.name}${yearSuffix(intent)}.`,
+        intent,
+        suggestedQueries: [{
+          functionName: 'getEntityCollaborationNetwork',
+          params: {
+            entityType: entity.entityType,
+            entityId: entity.id,
+            ...(intent.startYear !== undefined && { startYear: intent.startYear }),
+            ...(intent.endYear !== undefined && { endYear: intent.endYear })
+          }
+        }]
+      };
+    }
+
+    case 'search': {
+      const named = text.match(/\b(?:named|called|matching)\s+["“]?([^"”?.!]+)/);
+      const query = named?.[1].trim() ??
+        tokens.filter(token => !entityTypeWords[token] && !['search', 'find', 'look', 'up', 'lookup', 'for', 'me', 'the', 'a', 'an', 'all', 'please', 'can', 'you'].includes(token)).join(' ');
+      intent.query = query;
+
+      const searchTypes = intent.entityType ? [intent.entityType] : explicitTypes;
+      if (!query) {
+        return clarify('What name should I search for?');
+      }
+      // Without exactly one type named, search them all
+      const searchType = searchTypes.length === 1 ? searchTypes[0] : undefined;
+      return {
+        message: `Searching ${searchType ? `${searchType}s` : 'authors, institutions and journals'} for "${query}".`,
+        intent,
+        suggestedQueries: [{ functionName: 'searchEntities', params: { query, ...(searchType && { entityType: searchType }) } }]
+      };
+    }
+
+    case 'metrics': {
+      if (intent.entities.length === 0) {
+        return clarify('Which author, institution or journal would you like metrics for?');
+      }
+      return {
+        message: intent.metrics.length > 0
+          ? `Looking up ${describeList(intent.metrics.map(m => metricLabel(intent.entities[0].entityType, m)))} for ${describeList(intent.entities.map(e => e.name))}.`
+          : `Looking up metrics for ${describeList(intent.entities.map(e => e.name))}.`,
+        intent,
+        suggestedQueries: intent.entities.map(e => ({
+          functionName: 'getMetrics',
+          params: { entityType: e.entityType, entityId: e.id, ...(intent.metrics.length > 0 && { metricNames: intent.metrics }) }
+        }))
+      };
+    }
+
+    case 'entity':
+      return {
+        message: `Here is what I have on ${describeList(intent.entities.map(e => e.name))}.`,
+        intent,
+        suggestedQueries: intent.entities.map(e => ({ functionName: 'getEntity', params: { entityType: e.entityType, entityId: e.id } }))
+      };
+
+    default:
+      return { message: HELP_MESSAGE, intent, suggestedQueries: [] };
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { zodToJsonSchema, UnsupportedSchemaError } from './jsonSchema';
+import { queryFunctions } from './queries';
+
+describe('zodToJsonSchema', () => {
+  it('should keep descriptions on objects and optional fields', () => {
+    const schema = z.object({
+      name: z.string().describe('Name'),
+      year: z.number().optional().describe('Year'),
+      limit: z.number().optional().default(10).describe('Limit')
+    }).describe('Params');
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      description: 'Params',
+      properties: {
+        name: { type: 'string', description: 'Name' },
+        year: { type: 'number', description: 'Year' },
+        limit: { type: 'number', description: 'Limit', default: 10 }
+      },
+      required: ['name'],
+      additionalProperties: false
+    });
+  });
+
+  it('should emit bounds for integers, strings and arrays', () => {
+    expect(zodToJsonSchema(z.number().int().min(1).max(3))).toEqual({ type: 'integer', minimum: 1, maximum: 3 });
+    expect(zodToJsonSchema(z.number().positive())).toEqual({ type: 'number', exclusiveMinimum: 0 });
+    expect(zodToJsonSchema(z.string().min(2).max(5))).toEqual({ type: 'string', minLength: 2, maxLength: 5 });
+    expect(zodToJsonSchema(z.array(z.string()).min(2))).toEqual({ type: 'array', items: { type: 'string' }, minItems: 2 });
+  });
+
+  it('should convert booleans, literals, unions and nullable types', () => {
+    expect(zodToJsonSchema(z.boolean())).toEqual({ type: 'boolean' });
+    expect(zodToJsonSchema(z.literal('asc'))).toEqual({ type: 'string', const: 'asc' });
+    expect(zodToJsonSchema(z.union([z.literal('asc'), z.literal('desc')]))).toEqual({ type: 'string', enum: ['asc', 'desc'] });
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({ anyOf: [{ type: 'string' }, { type: 'number' }] });
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({ anyOf: [{ type: 'string' }, { type: 'null' }] });
+  });
+
+  it('should convert records and nested objects', () => {
+    const schema = z.object({
+      weights: z.record(z.number()),
+      range: z.object({ start: z.number(), end: z.number().optional() }).passthrough()
+    });
+
+    expect(zodToJsonSchema(schema).properties).toEqual({
+      weights: { type: 'object', additionalProperties: { type: 'number' } },
+      range: {
+        type: 'object',
+        properties: { start: { type: 'number' }, end: { type: 'number' } },
+        required: ['start'],
+        additionalProperties: true
+      }
+    });
+  });
+
+  it('should see through refinements and preprocessing', () => {
+    const schema = z.preprocess(v => v, z.enum(['a', 'b'])).describe('Choice');
+    expect(zodToJsonSchema(schema)).toEqual({ type: 'string', enum: ['a', 'b'], description: 'Choice' });
+  });
+
+  it('should reject types it cannot express', () => {
+    expect(() => zodToJsonSchema(z.bigint())).toThrow(UnsupportedSchemaError);
+  });
+
+  describe('query function parameters', () => {
+    for (const [name, config] of Object.entries(queryFunctions)) {
+      it(`should match the snapshot for ${name}`, () => {
+        expect(zodToJsonSchema(config.schema)).toMatchSnapshot();
+      });
+    }
+  });
+});
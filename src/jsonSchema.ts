@@ -0,0 +1,195 @@
+import { z } from 'zod';
+
+/**
+ * The subset of JSON Schema emitted for function parameters
+ */
+export interface JsonSchema {
+  /** A list of types only appears in OpenAI strict schemas, for nullable fields */
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  /** OpenAPI 3.0 (Gemini) spelling of a nullable type */
+  nullable?: boolean;
+}
+
+/**
+ * Thrown when a schema uses a Zod type with no JSON Schema equivalent here
+ */
+export class UnsupportedSchemaError extends Error {
+  constructor(public readonly typeName: string) {
+    super(`Cannot convert ${typeName} to JSON Schema`);
+    this.name = 'UnsupportedSchemaError';
+  }
+}
+
+/**
+ * Convert a Zod schema to JSON Schema for LLM function definitions.
+ *
+ * Descriptions are kept at every level, including on optional and defaulted
+ * fields. Objects are closed (`additionalProperties: false`) unless they
+ * use passthrough or a catchall.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const json = convert(schema);
+  if (schema.description !== undefined) json.description = schema.description;
+  return json;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+
+    const json: JsonSchema = { type: 'object', properties };
+    if (required.length > 0) json.required = required;
+
+    const catchall: z.ZodTypeAny = schema._def.catchall;
+    if (!(catchall instanceof z.ZodNever)) {
+      json.additionalProperties = zodToJsonSchema(catchall);
+    } else {
+      json.additionalProperties = schema._def.unknownKeys === 'passthrough';
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      switch (check.kind) {
+        case 'min': json.minLength = check.value; break;
+        case 'max': json.maxLength = check.value; break;
+        case 'length': json.minLength = json.maxLength = check.value; break;
+        case 'regex': json.pattern = check.regex.source; break;
+        case 'email': json.format = 'email'; break;
+        case 'url': json.format = 'uri'; break;
+        case 'uuid': json.format = 'uuid'; break;
+        case 'datetime': json.format = 'date-time'; break;
+        case 'date': json.format = 'date'; break;
+      }
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      switch (check.kind) {
+        case 'int': json.type = 'integer'; break;
+        case 'min':
+          if (check.inclusive) json.minimum = check.value;
+          else json.exclusiveMinimum = check.value;
+          break;
+        case 'max':
+          if (check.inclusive) json.maximum = check.value;
+          else json.exclusiveMaximum = check.value;
+          break;
+        case 'multipleOf': json.multipleOf = check.value; break;
+      }
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null' };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { type: jsonTypeOf(schema.value), const: schema.value };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.values(schema.enum as Record<string, string | number>)
+      // Numeric enums map names to values and values back to names
+      .filter(value => typeof value !== 'string' || typeof (schema.enum as Record<string, unknown>)[value] !== 'number');
+    const types = [...new Set(values.map(jsonTypeOf))];
+    return types.length === 1 ? { type: types[0], enum: values } : { enum: values };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+    const { minLength, maxLength, exactLength } = schema._def;
+    if (minLength) json.minItems = minLength.value;
+    if (maxLength) json.maxItems = maxLength.value;
+    if (exactLength) json.minItems = json.maxItems = exactLength.value;
+    return json;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options: z.ZodTypeAny[] = [...schema.options];
+    // A union of literals reads better as an enum
+    if (options.every(option => option instanceof z.ZodLiteral)) {
+      const values = options.map(option => (option as z.ZodLiteral<unknown>).value);
+      const types = [...new Set(values.map(jsonTypeOf))];
+      return types.length === 1 ? { type: types[0], enum: values } : { enum: values };
+    }
+    return { anyOf: options.map(zodToJsonSchema) };
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    // Refinements and preprocessing don't change the accepted shape
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodPipeline) {
+    return zodToJsonSchema(schema._def.in);
+  }
+
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) {
+    return {};
+  }
+
+  throw new UnsupportedSchemaError(schema._def.typeName ?? schema.constructor.name);
+}
+
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
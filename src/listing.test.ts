@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { matchesFilter, paginate, sortByKey } from './listing';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { QueryError } from './errors';
+
+const author = (id: string) => mockDataSource.getEntity('author', id)!;
+const journal = (id: string) => mockDataSource.getEntity('journal', id)!;
+
+describe('matchesFilter', () => {
+  it('should match authors by current affiliation, by identifier or name', () => {
+    expect(matchesFilter(mockDataSource, author('auth_001'), 'author', { affiliation: 'inst_001' })).toBe(true);
+    expect(matchesFilter(mockDataSource, author('auth_001'), 'author', { affiliation: 'massachusetts institute of technology' })).toBe(true);
+    expect(matchesFilter(mockDataSource, author('auth_001'), 'author', { affiliation: 'ETH Zurich' })).toBe(false);
+    expect(matchesFilter(mockDataSource, author('auth_003'), 'author', { affiliation: 'University of Cambridge' })).toBe(true);
+  });
+
+  it('should require every condition and skip entities of other types', () => {
+    expect(matchesFilter(mockDataSource, journal('jour_003'), 'journal', { publisher: 'elsevier' })).toBe(true);
+    expect(matchesFilter(mockDataSource, journal('jour_003'), 'journal', {
+      publisher: 'Elsevier',
+      metrics: [{ metric: 'sjr', operator: '>=', value: 13 }]
+    })).toBe(false);
+    expect(matchesFilter(mockDataSource, journal('jour_001'), 'journal', { country: 'United Kingdom' })).toBe(false);
+    expect(matchesFilter(mockDataSource, author('auth_002'), 'author', {
+      metrics: [{ metric: 'citationsPerPublication', operator: '>', value: 30 }]
+    })).toBe(true);
+  });
+});
+
+describe('sortByKey', () => {
+  it('should put items without a value last in either order', () => {
+    const items = [{ v: 2 }, { v: undefined }, { v: 1 }, { v: 3 }];
+    expect(sortByKey(items, item => item.v, 'asc').map(item => item.v)).toEqual([1, 2, 3, undefined]);
+    expect(sortByKey(items, item => item.v, 'desc').map(item => item.v)).toEqual([3, 2, 1, undefined]);
+  });
+});
+
+describe('paginate', () => {
+  const items = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should hand out cursors until the last page', () => {
+    const first = paginate(items, { limit: 2 });
+    const second = paginate(items, { limit: 2, cursor: first.nextCursor! });
+    const third = paginate(items, { limit: 2, cursor: second.nextCursor! });
+    expect([first.items, second.items, third.items]).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    expect(third).toMatchObject({ totalCount: 5, nextCursor: null });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => paginate(items, { limit: 2, cursor: 'not-a-cursor' })).toThrow(QueryError);
+    expect(() => paginate(items, { limit: 2, cursor: 'not-a-cursor' })).toThrow("Invalid cursor 'not-a-cursor'");
+  });
+});
@@ -0,0 +1,246 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { QueryError } from './errors';
+import { getMetricNames, getMetricValue, metricNameSchema, resolveMetric } from './metrics';
+import { foldText } from './search';
+import { Author, Entity, EntityType, Institution, Journal, Page } from './types';
+
+/**
+ * Comparison a metric threshold applies
+ */
+const thresholdOperators = {
+  '>': (value: number, threshold: number) => value > threshold,
+  '>=': (value: number, threshold: number) => value >= threshold,
+  '<': (value: number, threshold: number) => value < threshold,
+  '<=': (value: number, threshold: number) => value <= threshold,
+  '=': (value: number, threshold: number) => value === threshold
+};
+
+/**
+ * Conditions on the entities a list query returns; all of them must hold.
+ * Each attribute belongs to one entity type, so entities of other types never match it.
+ */
+export const entityFilterSchema = z.object({
+  country: z.string().optional().describe('Institutions in this country, e.g. "United Kingdom"'),
+  publisher: z.string().optional().describe('Journals from this publisher, e.g. "Elsevier"'),
+  affiliation: z.string().optional().describe('Authors currently affiliated with this institution (identifier or name)'),
+  metrics: z.array(z.object({
+    metric: metricNameSchema,
+    operator: z.enum(Object.keys(thresholdOperators) as [keyof typeof thresholdOperators, ...(keyof typeof thresholdOperators)[]]),
+    value: z.number()
+  })).optional().describe('Metric thresholds, e.g. { "metric": "fwci", "operator": ">", "value": 2 }; entities without the metric never match')
+});
+
+export type EntityFilter = z.infer<typeof entityFilterSchema>;
+
+/**
+ * Descriptive attribute each entity type has besides id and name, usable as a filter or grouping dimension
+ */
+export const entityAttributes = {
+  author: 'affiliation',
+  institution: 'country',
+  journal: 'publisher'
+} as const satisfies Record<EntityType, string>;
+
+export type EntityAttribute = (typeof entityAttributes)[EntityType];
+
+/**
+ * Entity type each filter attribute applies to
+ */
+const filterAttributeTypes = Object.fromEntries(
+  Object.entries(entityAttributes).map(([entityType, attribute]) => [attribute, entityType])
+) as Record<EntityAttribute, EntityType>;
+
+export const sortOrderSchema = z.enum(['asc', 'desc']);
+
+export type SortOrder = z.infer<typeof sortOrderSchema>;
+
+/**
+ * Pagination parameters shared by list queries
+ */
+export const pageParamsSchema = z.object({
+  limit: z.number().int().min(1).optional().default(10).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe("The previous page's nextCursor, to get the page after it (first page if omitted)")
+});
+
+/**
+ * Check that a filter parameter (at `path`) only names metrics and attributes
+ * of the entity type it filters
+ */
+export function checkFilter(
+  filter: EntityFilter | undefined,
+  entityType: EntityType,
+  ctx: z.RefinementCtx,
+  path: (string | number)[] = ['filter']
+): void {
+  if (!filter) return;
+
+  for (const [attribute, type] of Object.entries(filterAttributeTypes)) {
+    if (filter[attribute as keyof typeof filterAttributeTypes] !== undefined && type !== entityType) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, attribute],
+        message: `'${attribute}' only filters ${type}s, not ${entityType}s`
+      });
+    }
+  }
+
+  (filter.metrics ?? []).forEach(({ metric }, index) => {
+    if (!resolveMetric(entityType, metric)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, 'metrics', index, 'metric'],
+        message: `Metric '${metric}' is not available for ${entityType}s. ` +
+          `Available metrics: ${getMetricNames(entityType).join(', ')}`
+      });
+    }
+  });
+}
+
+/**
+ * Refinement checking the `filter` parameter against the entity type under
+ * `typeKey`. Lists spanning several types (no entity type given) accept every
+ * attribute and any metric.
+ */
+export function checkFilterForEntityType<TypeKey extends string>(typeKey: TypeKey) {
+  return (params: { [K in TypeKey]?: EntityType } & { filter?: EntityFilter }, ctx: z.RefinementCtx) => {
+    const entityType = params[typeKey];
+    if (entityType) checkFilter(params.filter, entityType, ctx);
+  };
+}
+
+/**
+ * Identifiers of the institutions an author is currently affiliated with
+ * (affiliation relationships without an end year)
+ */
+export function currentInstitutionIds(dataSource: DataSource, author: Author): string[] {
+  return dataSource.getRelationships(author.id)
+    .filter(r => r.type === 'affiliation' && r.fromId === author.id && r.endYear === undefined)
+    .map(r => r.toId);
+}
+
+/**
+ * Whether an author is affiliated with an institution, by the institution's
+ * identifier or name: through a current affiliation or the author's own affiliation field
+ */
+export function isAffiliatedWith(dataSource: DataSource, author: Author, institution: string): boolean {
+  const key = foldText(institution.trim());
+  if (author.affiliation && foldText(author.affiliation) === key) return true;
+
+  return currentInstitutionIds(dataSource, author).some(id => {
+    const current = dataSource.getEntity('institution', id);
+    return id === institution || (current !== null && foldText(current.name) === key);
+  });
+}
+
+/**
+ * Whether a filter has no conditions, so every entity passes it
+ */
+export function isEmptyFilter(filter: EntityFilter = {}): boolean {
+  const { country, publisher, affiliation, metrics = [] } = filter;
+  return country === undefined && publisher === undefined && affiliation === undefined && metrics.length === 0;
+}
+
+/**
+ * Whether an entity passes every condition of a filter. Text attributes match
+ * whole values, ignoring case and accents.
+ */
+export function matchesFilter(dataSource: DataSource, entity: Entity, entityType: EntityType, filter: EntityFilter = {}): boolean {
+  const { country, publisher, affiliation, metrics = [] } = filter;
+  const sameText = (value: string | undefined, wanted: string) => value !== undefined && foldText(value) === foldText(wanted.trim());
+
+  if (country !== undefined && (entityType !== 'institution' || !sameText((entity as Institution).country, country))) return false;
+  if (publisher !== undefined && (entityType !== 'journal' || !sameText((entity as Journal).publisher, publisher))) return false;
+  if (affiliation !== undefined && (entityType !== 'author' || !isAffiliatedWith(dataSource, entity as Author, affiliation))) return false;
+
+  return metrics.every(({ metric, operator, value }) => {
+    const actual = getMetricValue(entity, metric, entityType);
+    return actual !== undefined && thresholdOperators[operator](actual, value);
+  });
+}
+
+/**
+ * Stable sort by a key; items without a value go last in either order
+ */
+export function sortByKey<T>(items: T[], key: (item: T) => number | string | undefined, order: SortOrder): T[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => {
+    const keyA = key(a);
+    const keyB = key(b);
+    if (keyA === undefined || keyB === undefined) return (keyA === undefined ? 1 : 0) - (keyB === undefined ? 1 : 0);
+    const compared = typeof keyA === 'string' || typeof keyB === 'string'
+      ? String(keyA).localeCompare(String(keyB))
+      : keyA - keyB;
+    return compared * direction;
+  });
+}
+
+/**
+ * Cursors are opaque to callers: the offset of the next page, tied to the
+ * query that produced it so it can't be replayed against different filters
+ */
+interface CursorState {
+  offset: number;
+  query: string;
+}
+
+/**
+ * Fingerprint of a list query's parameters, leaving out the ones that may
+ * change from page to page
+ */
+function fingerprint(params: object): string {
+  const { cursor: _cursor, limit: _limit, ...query } = params as Record<string, unknown>;
+  return createHash('sha256').update(JSON.stringify(query)).digest('base64url').slice(0, 16);
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Offset a cursor points to, or 0 for the first page
+ */
+export function decodeCursor(params: { cursor?: string }): number {
+  if (params.cursor === undefined) return 0;
+
+  let state: Partial<CursorState> | undefined;
+  try {
+    state = JSON.parse(Buffer.from(params.cursor, 'base64url').toString('utf8'));
+  } catch {
+    state = undefined;
+  }
+  if (!state || !Number.isInteger(state.offset) || (state.offset as number) < 0 || typeof state.query !== 'string') {
+    throw new QueryError('INVALID_PARAMETERS', `Invalid cursor '${params.cursor}'`, 'Pass a nextCursor from an earlier page unchanged, or omit cursor for the first page.');
+  }
+  if (state.query !== fingerprint(params)) {
+    throw new QueryError(
+      'INVALID_PARAMETERS',
+      'The cursor belongs to a query with different parameters',
+      'Repeat the query that returned the cursor with the same filter and sort, or omit cursor to start over.'
+    );
+  }
+  return state.offset as number;
+}
+
+/**
+ * A page of results starting at `offset`, for queries that fetch one page at
+ * a time. Without a limit the page runs to the end.
+ */
+export function toPage<T>(items: T[], offset: number, totalCount: number, params: { limit?: number; cursor?: string }): Page<T> {
+  const { limit = Infinity } = params;
+  const end = offset + limit;
+  return {
+    items: items.slice(0, limit),
+    totalCount,
+    nextCursor: end < totalCount ? encodeCursor({ offset: end, query: fingerprint(params) }) : null
+  };
+}
+
+/**
+ * Cut one page out of a query's full, ordered results
+ */
+export function paginate<T>(items: T[], params: { limit?: number; cursor?: string }): Page<T> {
+  const offset = decodeCursor(params);
+  return toPage(items.slice(offset), offset, items.length, params);
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer } from './mcp';
+import { createApp } from './index';
+import { queryFunctions } from './queries';
+
+let client: Client;
+
+beforeAll(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(clientTransport);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+describe('createMcpServer', () => {
+  it('should register every query function as a tool', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(t => t.name)).toEqual(Object.keys(queryFunctions));
+
+    const getTrend = tools.find(t => t.name === 'getTrend');
+    expect(getTrend?.description).toBe(queryFunctions.getTrend.description);
+    expect(getTrend?.inputSchema.required).toEqual(['entityId', 'metric']);
+  });
+
+  it('should execute tools and return structured results', async () => {
+    const result = await client.callTool({ name: 'getTopEntities', arguments: { entityType: 'author', metric: 'h-index', limit: 1 } });
+    expect(result.isError).toBeUndefined();
+    expect((result.structuredContent as { result: { items: { id: string }[] } }).result.items[0].id).toBe('auth_002');
+  });
+
+  it('should report validation failures as structured tool errors', async () => {
+    const result = await client.callTool({ name: 'getMetrics', arguments: { entityType: 'author' } });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      error: 'Invalid parameters',
+      details: [{ path: ['entityId'], message: 'Required' }]
+    });
+  });
+
+  it('should report unknown metrics with the available ones', async () => {
+    const result = await client.callTool({ name: 'getTrend', arguments: { entityId: 'auth_002', metric: 'hIndex' } });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      code: 'UNKNOWN_METRIC',
+      availableMetrics: ['publications', 'citations', 'citationsPerPublication']
+    });
+  });
+
+  it('should report missing entities with suggestions', async () => {
+    const result = await client.callTool({ name: 'getEntity', arguments: { entityType: 'author', entityId: 'auth_02' } });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      code: 'ENTITY_NOT_FOUND',
+      hint: "Did you mean 'auth_002' (Prof. James Anderson)?"
+    });
+  });
+
+  it('should reject unknown tools', async () => {
+    await expect(client.callTool({ name: 'dropTables', arguments: {} })).rejects.toThrow("Function 'dropTables' not found");
+  });
+
+  it('should expose entities as resources', async () => {
+    const { resources } = await client.listResources();
+    expect(resources).toContainEqual({ uri: 'scival://author/auth_001', name: 'Dr. Sarah Chen', mimeType: 'application/json' });
+
+    const { contents } = await client.readResource({ uri: 'scival://institution/inst_002' });
+    expect(JSON.parse(contents[0].text as string).name).toBe('University of Oxford');
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(client.readResource({ uri: 'scival://author/nonexistent' })).rejects.toThrow('Resource not found');
+    await expect(client.readResource({ uri: 'scival://grant/g1' })).rejects.toThrow('Resource not found');
+  });
+});
+
+describe('MCP over HTTP', () => {
+  let server: Server;
+
+  beforeAll(async () => {
+    server = createApp().listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should serve tools over Streamable HTTP', async () => {
+    const { port } = server.address() as AddressInfo;
+    const httpClient = new Client({ name: 'test', version: '1.0.0' });
+    await httpClient.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+
+    const result = await httpClient.callTool({ name: 'getEntity', arguments: { entityType: 'journal', entityId: 'jour_001' } });
+    expect((result.structuredContent as { result: { name: string } }).result.name).toBe('Nature');
+
+    await httpClient.close();
+  });
+
+  it('should serve tools over SSE', async () => {
+    const { port } = server.address() as AddressInfo;
+    const sseClient = new Client({ name: 'test', version: '1.0.0' });
+    await sseClient.connect(new SSEClientTransport(new URL(`http://127.0.0.1:${port}/mcp/sse`)));
+
+    const { tools } = await sseClient.listTools();
+    expect(tools).toHaveLength(Object.keys(queryFunctions).length);
+
+    await sseClient.close();
+  });
+});
@@ -0,0 +1,186 @@
+import { Express, Request, Response } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Tool
+} from '@modelcontextprotocol/sdk/types.js';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { executeQuery } from './execution';
+import { formatTools, queryFunctionDefinitions } from './toolFormats';
+import { EntityType, entityTypes } from './types';
+
+const SERVER_INFO = { name: 'scival-llm-data-layer', version: '0.1.0' };
+
+/**
+ * URI of an entity resource, e.g. scival://author/auth_001
+ */
+export function entityUri(entityType: EntityType, entityId: string): string {
+  return `scival://${entityType}/${encodeURIComponent(entityId)}`;
+}
+
+function parseEntityUri(uri: string): { entityType: EntityType; entityId: string } | null {
+  const match = /^scival:\/\/([a-z]+)\/([^/]+)$/.exec(uri);
+  if (!match || !entityTypes.includes(match[1] as EntityType)) return null;
+  return { entityType: match[1] as EntityType, entityId: decodeURIComponent(match[2]) };
+}
+
+/**
+ * Tool result carrying a JSON payload as both text and structured content
+ */
+function toolResult(payload: Record<string, unknown>, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(payload) }],
+    structuredContent: payload,
+    ...(isError && { isError })
+  };
+}
+
+/**
+ * Build an MCP server exposing every query function as a tool and every
+ * entity as a `scival://{entityType}/{entityId}` resource.
+ *
+ * Failed queries come back as tool results with `isError` set, carrying the
+ * same payload as the REST API's error responses, so the model can correct
+ * the call.
+ */
+export function createMcpServer(dataSource: DataSource = mockDataSource): Server {
+  const server = new Server(SERVER_INFO, { capabilities: { tools: {}, resources: {} } });
+  const tools = formatTools('mcp', queryFunctionDefinitions()).tools as Tool[];
+
+  server.setRequestHandler(ListToolsRequestSchema, () => ({ tools }));
+
+  server.setRequestHandler(CallToolRequestSchema, request => {
+    const { name, arguments: args } = request.params;
+    const outcome = executeQuery(name, args ?? {}, dataSource);
+
+    if (outcome.success) {
+      return toolResult({ result: outcome.result });
+    }
+    if (outcome.body.code === 'FUNCTION_NOT_FOUND') {
+      throw new McpError(ErrorCode.InvalidParams, outcome.body.error);
+    }
+    return toolResult({ ...outcome.body }, true);
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, () => ({
+    resources: entityTypes.flatMap(entityType =>
+      dataSource.listEntities(entityType).map(entity => ({
+        uri: entityUri(entityType, entity.id),
+        name: entity.name,
+        mimeType: 'application/json'
+      }))
+    )
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: [{
+      uriTemplate: 'scival://{entityType}/{entityId}',
+      name: 'SciVal entity',
+      description: `An author, institution or journal with its metrics (entityType: ${entityTypes.join(', ')})`,
+      mimeType: 'application/json'
+    }]
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, request => {
+    const { uri } = request.params;
+    const parsed = parseEntityUri(uri);
+    const entity = parsed && dataSource.getEntity(parsed.entityType, parsed.entityId);
+
+    if (!entity) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`, { uri });
+    }
+
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(entity) }]
+    };
+  });
+
+  return server;
+}
+
+/**
+ * JSON-RPC error for a request the transport failed on before answering
+ */
+const internalErrorResponse = {
+  jsonrpc: '2.0',
+  error: { code: ErrorCode.InternalError, message: 'Internal server error' },
+  id: null
+};
+
+/**
+ * Answer with a 500 unless the transport has already started the response
+ */
+function sendInternalError(res: Response, body: object): void {
+  if (!res.headersSent) {
+    res.status(500).json(body);
+  }
+}
+
+/**
+ * Serve MCP over HTTP: Streamable HTTP at `/mcp` (stateless, one server per
+ * request) and the older SSE transport at `/mcp/sse` with messages posted
+ * to `/mcp/messages?sessionId=`.
+ */
+export function mountMcpRoutes(app: Express, dataSource: DataSource): void {
+  app.post('/mcp', async (req: Request, res: Response) => {
+    const server = createMcpServer(dataSource);
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch {
+      sendInternalError(res, internalErrorResponse);
+    }
+  });
+
+  // Stateless Streamable HTTP has no sessions to stream to or delete
+  app.all('/mcp', (req: Request, res: Response) => {
+    res.status(405).set('Allow', 'POST').json({ error: 'Method not allowed' });
+  });
+
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  app.get('/mcp/sse', async (req: Request, res: Response) => {
+    const server = createMcpServer(dataSource);
+    const transport = new SSEServerTransport('/mcp/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+    } catch {
+      sseTransports.delete(transport.sessionId);
+      sendInternalError(res, { error: 'Internal server error' });
+    }
+  });
+
+  app.post('/mcp/messages', async (req: Request, res: Response) => {
+    const transport = sseTransports.get(String(req.query.sessionId));
+    if (!transport) {
+      return res.status(404).json({ error: 'Unknown or expired session' });
+    }
+    try {
+      await transport.handlePostMessage(req, res, req.body);
+    } catch {
+      sendInternalError(res, internalErrorResponse);
+    }
+  });
+}
@@ -0,0 +1,18 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { resolveDataSource } from './index';
+import { createMcpServer } from './mcp';
+
+/**
+ * MCP server over stdio, for assistants that launch the data layer as a
+ * subprocess. Reads SCIVAL_DB_FILE and SCIVAL_DATA_DIR like the HTTP server.
+ */
+async function main() {
+  const dataSource = await resolveDataSource();
+  await createMcpServer(dataSource).connect(new StdioServerTransport());
+}
+
+main().catch(error => {
+  // stdout carries the protocol, so diagnostics go to stderr
+  console.error(error);
+  process.exit(1);
+});
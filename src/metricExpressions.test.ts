@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateMetricExpression, expressionFields, parseMetricExpression } from './metricExpressions';
+
+const evaluate = (source: string, values: Record<string, number> = {}) =>
+  evaluateMetricExpression(parseMetricExpression(source), field => values[field]);
+
+describe('metric expressions', () => {
+  it('should follow arithmetic precedence and parentheses', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('-2 * -(1.5 + 0.5)')).toBe(4);
+  });
+
+  it('should read dotted fields', () => {
+    const values = { 'outputsInTopCitationPercentiles.top10': 45, publications: 150 };
+    expect(evaluate('outputsInTopCitationPercentiles.top10 / publications', values)).toBeCloseTo(0.3);
+    expect(expressionFields(parseMetricExpression('a * b + a / c'))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should be undefined for missing fields and division by zero', () => {
+    expect(evaluate('citations / publications', { citations: 10 })).toBeUndefined();
+    expect(evaluate('citations / publications', { citations: 10, publications: 0 })).toBeUndefined();
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseMetricExpression('citations / ')).toThrow('Unexpected end of expression');
+    expect(() => parseMetricExpression('(a + b')).toThrow('Missing closing parenthesis');
+    expect(() => parseMetricExpression('a b')).toThrow('Unexpected input after the end of the expression');
+    expect(() => parseMetricExpression('a ^ 2')).toThrow("Unexpected character '^' at position 2");
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Arithmetic over metric fields, e.g. "citations / publications" or
+ * "0.6 * fieldWeightedCitationImpact + 4 * outputsInTopCitationPercentiles.top10 / publications".
+ * Supports numbers, dotted field names, + - * /, unary minus and parentheses.
+ */
+export type MetricExpression =
+  | { type: 'number'; value: number }
+  | { type: 'field'; name: string }
+  | { type: 'negate'; operand: MetricExpression }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: MetricExpression; right: MetricExpression };
+
+const tokenPattern = /\s*(?:(\d+(?:\.\d+)?)|([A-Za-z_][\w]*(?:\.[A-Za-z_]\w*)*)|([-+*/()]))/y;
+
+type Token = { kind: 'number'; value: number } | { kind: 'field'; name: string } | { kind: 'symbol'; symbol: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  tokenPattern.lastIndex = 0;
+
+  while (tokenPattern.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(tokenPattern.lastIndex))) break;
+    const start = tokenPattern.lastIndex;
+    const match = tokenPattern.exec(source);
+    if (!match) {
+      const rest = source.slice(start);
+      const offset = start + rest.length - rest.trimStart().length;
+      throw new SyntaxError(`Unexpected character '${source[offset]}' at position ${offset}`);
+    }
+    const [, number, field, symbol] = match;
+    if (number !== undefined) tokens.push({ kind: 'number', value: Number(number) });
+    else if (field !== undefined) tokens.push({ kind: 'field', name: field });
+    else tokens.push({ kind: 'symbol', symbol });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an expression, throwing SyntaxError if it is malformed
+ */
+export function parseMetricExpression(source: string): MetricExpression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (symbol: string) => {
+    const token = tokens[position];
+    return token?.kind === 'symbol' && token.symbol === symbol;
+  };
+
+  // expression := term (("+" | "-") term)*
+  const expression = (): MetricExpression => {
+    let left = term();
+    while (peek('+') || peek('-')) {
+      const operator = (tokens[position++] as { symbol: '+' | '-' }).symbol;
+      left = { type: 'binary', operator, left, right: term() };
+    }
+    return left;
+  };
+
+  // term := factor (("*" | "/") factor)*
+  const term = (): MetricExpression => {
+    let left = factor();
+    while (peek('*') || peek('/')) {
+      const operator = (tokens[position++] as { symbol: '*' | '/' }).symbol;
+      left = { type: 'binary', operator, left, right: factor() };
+    }
+    return left;
+  };
+
+  // factor := number | field | "-" factor | "(" expression ")"
+  const factor = (): MetricExpression => {
+    const token = tokens[position++];
+    if (!token) throw new SyntaxError('Unexpected end of expression');
+    if (token.kind === 'number') return { type: 'number', value: token.value };
+    if (token.kind === 'field') return { type: 'field', name: token.name };
+    if (token.symbol === '-') return { type: 'negate', operand: factor() };
+    if (token.symbol === '(') {
+      const inner = expression();
+      if (!peek(')')) throw new SyntaxError('Missing closing parenthesis');
+      position++;
+      return inner;
+    }
+    throw new SyntaxError(`Unexpected '${token.symbol}'`);
+  };
+
+  const parsed = expression();
+  if (position < tokens.length) {
+    throw new SyntaxError('Unexpected input after the end of the expression');
+  }
+  return parsed;
+}
+
+/**
+ * Field names an expression reads, in order of first use
+ */
+export function expressionFields(expression: MetricExpression): string[] {
+  switch (expression.type) {
+    case 'number': return [];
+    case 'field': return [expression.name];
+    case 'negate': return expressionFields(expression.operand);
+    case 'binary': return [...new Set([...expressionFields(expression.left), ...expressionFields(expression.right)])];
+  }
+}
+
+/**
+ * Evaluate an expression, or undefined if a field is missing or it divides by zero
+ */
+export function evaluateMetricExpression(
+  expression: MetricExpression,
+  read: (field: string) => number | undefined
+): number | undefined {
+  switch (expression.type) {
+    case 'number':
+      return expression.value;
+    case 'field':
+      return read(expression.name);
+    case 'negate': {
+      const operand = evaluateMetricExpression(expression.operand, read);
+      return operand === undefined ? undefined : -operand;
+    }
+    case 'binary': {
+      const left = evaluateMetricExpression(expression.left, read);
+      const right = evaluateMetricExpression(expression.right, read);
+      if (left === undefined || right === undefined) return undefined;
+      switch (expression.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? undefined : left / right;
+      }
+    }
+  }
+}
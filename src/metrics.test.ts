@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { InvalidMetricExpressionError } from './errors';
+import {
+  allMetricNames,
+  compileMetricExpression,
+  flattenMetrics,
+  getMetricNames,
+  getMetricTrend,
+  getMetricValue,
+  getTrendMetricNames,
+  isDerivedMetric,
+  metricRegistry,
+  resolveMetric
+} from './metrics';
+import { Entity, EntityType } from './types';
+import { compareEntitiesSchema, getMetricsSchema, getTopEntitiesSchema, getTrendSchema } from './queries';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { mockAuthors, mockInstitutions, mockJournals } from './data/mockData';
+
+describe('metricRegistry', () => {
+  it('should describe every numeric metric stored on each entity type', () => {
+    const numericKeys = (entity: Entity) => Object.keys(flattenMetrics(entity));
+    const storedNames = (entityType: EntityType) => getMetricNames(entityType).filter(name => !isDerivedMetric(entityType, name));
+
+    expect(storedNames('author').sort()).toEqual(numericKeys(mockAuthors[0]).sort());
+    expect(storedNames('institution').sort()).toEqual(numericKeys(mockInstitutions[0]).sort());
+    expect(storedNames('journal').sort()).toEqual(numericKeys(mockJournals[0]).sort());
+  });
+
+  it('should not let an alias resolve to different metrics', () => {
+    const owners = new Map<string, string>();
+    for (const definitions of Object.values(metricRegistry)) {
+      for (const metric of definitions) {
+        for (const alias of metric.aliases) {
+          const key = alias.toLowerCase().replace(/[^a-z0-9]/g, '');
+          expect(owners.get(key) ?? metric.name).toBe(metric.name);
+          owners.set(key, metric.name);
+        }
+      }
+    }
+  });
+});
+
+describe('resolveMetric', () => {
+  it('should resolve canonical names and aliases regardless of case and punctuation', () => {
+    expect(resolveMetric('author', 'hIndex')?.name).toBe('hIndex');
+    expect(resolveMetric('author', 'hindex')?.name).toBe('hIndex');
+    expect(resolveMetric('author', 'H-Index')?.name).toBe('hIndex');
+    expect(resolveMetric('institution', 'FWCI')?.name).toBe('fieldWeightedCitationImpact');
+    expect(resolveMetric('journal', 'SCImago Journal Rank')?.name).toBe('sjr');
+  });
+
+  it('should return null for metrics of another entity type', () => {
+    expect(resolveMetric('author', 'sjr')).toBeNull();
+    expect(resolveMetric('journal', 'hIndex')).toBeNull();
+  });
+});
+
+describe('nested metrics', () => {
+  it('should read nested values by dotted path', () => {
+    expect(getMetricValue(mockAuthors[0], 'outputsInTopCitationPercentiles.top5')).toBe(28);
+    expect(getMetricValue(mockAuthors[0], 'outputsInTopCitationPercentiles')).toBeUndefined();
+    expect(getMetricValue(mockAuthors[0], 'hIndex.top1')).toBeUndefined();
+  });
+
+  it('should flatten nested metrics to dotted keys', () => {
+    expect(flattenMetrics(mockAuthors[1])).toEqual({
+      publications: 203,
+      citations: 8912,
+      hIndex: 58,
+      fieldWeightedCitationImpact: 3.12,
+      'outputsInTopCitationPercentiles.top1': 18,
+      'outputsInTopCitationPercentiles.top5': 42,
+      'outputsInTopCitationPercentiles.top10': 67
+    });
+  });
+
+  it('should resolve percentile aliases', () => {
+    expect(resolveMetric('author', 'top 1%')?.name).toBe('outputsInTopCitationPercentiles.top1');
+    expect(resolveMetric('author', 'top 10 percent')?.name).toBe('outputsInTopCitationPercentiles.top10');
+  });
+});
+
+describe('derived metrics', () => {
+  it('should compute derived values only when given the entity type', () => {
+    const chen = mockAuthors[0];
+    expect(getMetricValue(chen, 'citationsPerPublication', 'author')).toBeCloseTo(4823 / 156);
+    expect(getMetricValue(chen, 'citationsPerPublication')).toBeUndefined();
+    expect(getMetricValue(mockJournals[0], 'citationsPerPublication', 'journal')).toBeUndefined();
+    expect(getMetricValue(mockJournals[0], 'percentUncited', 'journal')).toBeCloseTo(100 - 94.2);
+  });
+
+  it('should include derived values when flattening with the entity type', () => {
+    const flattened = flattenMetrics(mockAuthors[0], 'author');
+    expect(flattened.top10PercentShare).toBeCloseTo(45 / 156);
+    expect(flattened.impactScore).toBeCloseTo(0.6 * 2.34 + 0.4 * (45 / 156) / 0.1);
+    expect(isDerivedMetric('author', 'impactScore')).toBe(true);
+    expect(isDerivedMetric('author', 'hIndex')).toBe(false);
+  });
+
+  it('should reject expressions that read fields the entity type does not store', () => {
+    expect(compileMetricExpression('journal', 'ratio', 'sjr / snip')).toBeDefined();
+    expect(() => compileMetricExpression('journal', 'perPaper', 'citations / publications'))
+      .toThrow("journals have no stored metric 'citations', 'publications'");
+    expect(() => compileMetricExpression('author', 'nested', 'citationsPerPublication * 2')).toThrow(InvalidMetricExpressionError);
+    expect(() => compileMetricExpression('author', 'broken', 'citations /')).toThrow(
+      "Invalid expression 'citations /' for derived metric 'broken': Unexpected end of expression"
+    );
+  });
+
+  it('should derive trends for the years every input covers', () => {
+    const trend = getMetricTrend(mockDataSource, 'auth_002', 'citationsPerPublication');
+    const publications = mockDataSource.getTrend('auth_002', 'publications')!;
+    const citations = mockDataSource.getTrend('auth_002', 'citations')!;
+    expect(trend?.map(p => p.year)).toEqual(publications.map(p => p.year));
+    expect(trend![0].value).toBeCloseTo(citations[0].value / publications[0].value);
+
+    expect(getMetricTrend(mockDataSource, 'auth_002', 'top10PercentShare')).toBeNull();
+    expect(getTrendMetricNames(mockDataSource, 'auth_002')).toEqual(['publications', 'citations', 'citationsPerPublication']);
+  });
+});
+
+describe('metric parameters', () => {
+  it('should accept aliases and yield canonical names', () => {
+    const params = compareEntitiesSchema.parse({
+      entityType: 'author',
+      entityIdA: 'auth_001',
+      entityIdB: 'auth_002',
+      metric: 'fwci'
+    });
+    expect(params.metric).toBe('fieldWeightedCitationImpact');
+    expect(getTopEntitiesSchema.parse({ entityType: 'author', metric: 'h index' }).metric).toBe('hIndex');
+    expect(getTrendSchema.parse({ entityId: 'auth_001', metric: 'Citations' }).metric).toBe('citations');
+  });
+
+  it('should reject unknown metrics', () => {
+    const result = getTrendSchema.safeParse({ entityId: 'auth_001', metric: 'impactFactor' });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject metrics that do not apply to the entity type', () => {
+    const result = getTopEntitiesSchema.safeParse({ entityType: 'author', metric: 'sjr' });
+    expect(result.success).toBe(false);
+    const issue = (result as z.SafeParseError<unknown>).error.errors[0];
+    expect(issue.path).toEqual(['metric']);
+    expect(issue.message).toContain('not available for authors');
+  });
+
+  it('should check each requested metric name for the entity type', () => {
+    const result = getMetricsSchema.safeParse({ entityType: 'journal', entityId: 'jour_001', metricNames: ['SNIP', 'hIndex'] });
+    expect(result.success).toBe(false);
+    expect((result as z.SafeParseError<unknown>).error.errors[0].path).toEqual(['metricNames', 1]);
+
+    const valid = getMetricsSchema.parse({ entityType: 'journal', entityId: 'jour_001', metricNames: ['SNIP'] });
+    expect(valid.metricNames).toEqual(['snip']);
+  });
+
+  it('should list every metric in the parameter enum', () => {
+    expect(allMetricNames).toContain('percentCited');
+    expect(new Set(allMetricNames).size).toBe(allMetricNames.length);
+  });
+});
@@ -0,0 +1,551 @@
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { findEntityType, suggestEntities } from './entityLookup';
+import {
+  EntityNotFoundError,
+  InvalidMetricExpressionError,
+  NoTrendDataError,
+  UndefinedMetricValueError,
+  UnknownMetricError
+} from './errors';
+import { evaluateMetricExpression, expressionFields, MetricExpression, parseMetricExpression } from './metricExpressions';
+import { Author, Entity, EntityType, entityTypes, Institution, Journal, TimePeriod, TrendPoint } from './types';
+
+/**
+ * How a metric value should be read
+ * - count: whole number of items (publications, citations)
+ * - index: dimensionless score such as h-index, SJR or SNIP
+ * - ratio: value relative to a baseline (1.0 = world average for FWCI)
+ * - proportion: share between 0 and 1
+ * - percent: share between 0 and 100
+ */
+export type MetricUnit = 'count' | 'index' | 'ratio' | 'proportion' | 'percent';
+
+/**
+ * Description of a single metric, as published to LLM clients
+ */
+export interface MetricDefinition<Name extends string = string> {
+  name: Name;
+  label: string;
+  aliases: string[];
+  unit: MetricUnit;
+  higherIsBetter: boolean;
+  description: string;
+  range: { min: number; max?: number };
+  /**
+   * Derived metrics only: arithmetic over the entity type's stored metrics,
+   * computed when read, e.g. "citations / publications"
+   */
+  expression?: string;
+}
+
+/**
+ * A metric value with the context needed to read it correctly
+ */
+export interface AnnotatedMetric {
+  value: number;
+  label?: string;
+  unit?: MetricUnit;
+  description?: string;
+  /** Years the value covers, or null if the data source doesn't say */
+  period: TimePeriod | null;
+}
+
+/**
+ * Dotted paths to every numeric field, e.g. "hIndex" or "outputsInTopCitationPercentiles.top1"
+ */
+type NumericPaths<T> = {
+  [K in keyof T & string]: T[K] extends number
+    ? K
+    : T[K] extends object
+      ? `${K}.${NumericPaths<T[K]>}`
+      : never
+}[keyof T & string];
+
+type DerivedMetricDefinition<Name extends string = string> = MetricDefinition<Name> & { expression: string };
+
+/**
+ * Keeps a derived metric's name as a literal type
+ */
+function derived<Name extends string>(definition: DerivedMetricDefinition<Name>): DerivedMetricDefinition<Name> {
+  return definition;
+}
+
+const citationsPerPublication = derived({
+  name: 'citationsPerPublication',
+  label: 'Citations per Publication',
+  aliases: ['citations per publication', 'citations per paper', 'cites per paper'],
+  unit: 'ratio',
+  higherIsBetter: true,
+  description: 'Average citations received per publication',
+  range: { min: 0 },
+  expression: 'citations / publications'
+});
+
+/**
+ * Metrics computed from stored ones. Expressions may only read stored metrics
+ * of the same entity type; this is checked when the module loads.
+ */
+const derivedMetrics = {
+  author: [
+    citationsPerPublication,
+    derived({
+      name: 'top10PercentShare',
+      label: 'Share of Outputs in Top 10% Citation Percentiles',
+      aliases: ['top 10% share', 'share in top 10%', 'top 10 percent share'],
+      unit: 'proportion',
+      higherIsBetter: true,
+      description: 'Share of publications among the 10% most cited worldwide (0.1 = world average)',
+      range: { min: 0, max: 1 },
+      expression: 'outputsInTopCitationPercentiles.top10 / publications'
+    }),
+    derived({
+      name: 'impactScore',
+      label: 'Composite Impact Score',
+      aliases: ['impact score', 'composite impact', 'composite score'],
+      unit: 'index',
+      higherIsBetter: true,
+      description: 'Weighted blend of FWCI (60%) and top 10% share relative to world average (40%); 1.0 = world average',
+      range: { min: 0 },
+      expression: '0.6 * fieldWeightedCitationImpact + 0.4 * (outputsInTopCitationPercentiles.top10 / publications) / 0.1'
+    })
+  ],
+  institution: [
+    citationsPerPublication,
+    derived({
+      name: 'corporateCollaborationOutput',
+      label: 'Academic-Corporate Co-authored Output',
+      aliases: ['corporate output', 'industry co-authored output', 'corporate co-authored output'],
+      unit: 'count',
+      higherIsBetter: true,
+      description: 'Estimated number of publications with both academic and corporate affiliations',
+      range: { min: 0 },
+      expression: 'academicCorporateCollaboration * publications'
+    })
+  ],
+  journal: [
+    derived({
+      name: 'percentUncited',
+      label: 'Percent Uncited',
+      aliases: ['% uncited', 'uncited share'],
+      unit: 'percent',
+      higherIsBetter: false,
+      description: 'Percentage of documents that have not been cited',
+      range: { min: 0, max: 100 },
+      expression: '100 - percentCited'
+    })
+  ]
+};
+
+type DerivedMetricName<T extends keyof typeof derivedMetrics> = (typeof derivedMetrics)[T][number]['name'];
+
+export type AuthorMetricName = NumericPaths<Author['metrics']> | DerivedMetricName<'author'>;
+export type InstitutionMetricName = NumericPaths<Institution['metrics']> | DerivedMetricName<'institution'>;
+export type JournalMetricName = NumericPaths<Journal['metrics']> | DerivedMetricName<'journal'>;
+export type MetricName = AuthorMetricName | InstitutionMetricName | JournalMetricName;
+
+const publications: Omit<MetricDefinition, 'name'> = {
+  label: 'Scholarly Output',
+  aliases: ['output', 'outputs', 'papers', 'scholarly output', 'publication count'],
+  unit: 'count',
+  higherIsBetter: true,
+  description: 'Number of publications indexed in Scopus',
+  range: { min: 0 }
+};
+
+const citations: Omit<MetricDefinition, 'name'> = {
+  label: 'Citation Count',
+  aliases: ['cites', 'citation count', 'total citations'],
+  unit: 'count',
+  higherIsBetter: true,
+  description: 'Total citations received by the publications',
+  range: { min: 0 }
+};
+
+const fieldWeightedCitationImpact: Omit<MetricDefinition, 'name'> = {
+  label: 'Field-Weighted Citation Impact',
+  aliases: ['fwci', 'field weighted impact'],
+  unit: 'ratio',
+  higherIsBetter: true,
+  description: 'Citations received relative to the world average for similar publications (1.0 = world average)',
+  range: { min: 0 }
+};
+
+function topPercentileOutputs<Name extends string>(name: Name, percentile: number): MetricDefinition<Name> {
+  return {
+    name,
+    label: `Outputs in Top ${percentile}% Citation Percentiles`,
+    aliases: [`top ${percentile}%`, `top ${percentile} percent`, `outputs in top ${percentile}%`],
+    unit: 'count',
+    higherIsBetter: true,
+    description: `Number of publications among the ${percentile}% most cited worldwide`,
+    range: { min: 0 }
+  };
+}
+
+/**
+ * Metrics available for each entity type. Nested fields are named by their
+ * dotted path within `metrics`; derived metrics follow the stored ones.
+ */
+export const metricRegistry: {
+  author: MetricDefinition<AuthorMetricName>[];
+  institution: MetricDefinition<InstitutionMetricName>[];
+  journal: MetricDefinition<JournalMetricName>[];
+} = {
+  author: [
+    { name: 'publications', ...publications },
+    { name: 'citations', ...citations },
+    {
+      name: 'hIndex',
+      label: 'h-index',
+      aliases: ['h-index', 'h index', 'hirsch index'],
+      unit: 'index',
+      higherIsBetter: true,
+      description: 'Largest h such that h publications have at least h citations each',
+      range: { min: 0 }
+    },
+    { name: 'fieldWeightedCitationImpact', ...fieldWeightedCitationImpact },
+    topPercentileOutputs('outputsInTopCitationPercentiles.top1', 1),
+    topPercentileOutputs('outputsInTopCitationPercentiles.top5', 5),
+    topPercentileOutputs('outputsInTopCitationPercentiles.top10', 10),
+    ...derivedMetrics.author
+  ],
+  institution: [
+    { name: 'publications', ...publications },
+    { name: 'citations', ...citations },
+    {
+      name: 'collaborationRate',
+      label: 'Collaboration Rate',
+      aliases: ['collaboration', 'co-authorship rate'],
+      unit: 'proportion',
+      higherIsBetter: true,
+      description: 'Share of publications co-authored with other institutions',
+      range: { min: 0, max: 1 }
+    },
+    { name: 'fieldWeightedCitationImpact', ...fieldWeightedCitationImpact },
+    {
+      name: 'academicCorporateCollaboration',
+      label: 'Academic-Corporate Collaboration',
+      aliases: ['industry collaboration', 'corporate collaboration'],
+      unit: 'proportion',
+      higherIsBetter: true,
+      description: 'Share of publications with both academic and corporate affiliations',
+      range: { min: 0, max: 1 }
+    },
+    ...derivedMetrics.institution
+  ],
+  journal: [
+    {
+      name: 'citesPerDoc',
+      label: 'Citations per Document',
+      aliases: ['citations per document', 'citations per doc', 'cites per document'],
+      unit: 'ratio',
+      higherIsBetter: true,
+      description: 'Average citations received per document published in the journal',
+      range: { min: 0 }
+    },
+    {
+      name: 'sjr',
+      label: 'SCImago Journal Rank',
+      aliases: ['scimago journal rank', 'scimago'],
+      unit: 'index',
+      higherIsBetter: true,
+      description: 'Prestige-weighted citations per document, weighting citations by the citing journal',
+      range: { min: 0 }
+    },
+    {
+      name: 'snip',
+      label: 'Source Normalized Impact per Paper',
+      aliases: ['source normalized impact per paper'],
+      unit: 'index',
+      higherIsBetter: true,
+      description: 'Citations per paper normalized for citation practices in the subject field',
+      range: { min: 0 }
+    },
+    {
+      name: 'percentCited',
+      label: 'Percent Cited',
+      aliases: ['% cited', 'cited share'],
+      unit: 'percent',
+      higherIsBetter: true,
+      description: 'Percentage of documents that have received at least one citation',
+      range: { min: 0, max: 100 }
+    },
+    ...derivedMetrics.journal
+  ]
+};
+
+/**
+ * Normalize a metric name or alias for lookup: "H-Index", "h index" and "hindex" all match
+ */
+function normalizeKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find a metric of the entity type by canonical name or alias
+ */
+export function resolveMetric(entityType: EntityType, name: string): MetricDefinition | null {
+  const key = normalizeKey(name);
+  const definitions: MetricDefinition[] = metricRegistry[entityType];
+  return definitions.find(m => normalizeKey(m.name) === key || m.aliases.some(a => normalizeKey(a) === key)) || null;
+}
+
+/**
+ * Canonical metric names for an entity type
+ */
+export function getMetricNames(entityType: EntityType): string[] {
+  return metricRegistry[entityType].map(m => m.name);
+}
+
+/**
+ * Parse a derived metric's expression and check that it only reads stored metrics of the entity type
+ */
+export function compileMetricExpression(entityType: EntityType, metric: string, expression: string): MetricExpression {
+  let parsed: MetricExpression;
+  try {
+    parsed = parseMetricExpression(expression);
+  } catch (error) {
+    throw new InvalidMetricExpressionError(metric, expression, (error as Error).message);
+  }
+
+  const stored: string[] = metricRegistry[entityType].filter(m => m.expression === undefined).map(m => m.name);
+  const missing = expressionFields(parsed).filter(field => !stored.includes(field));
+  if (missing.length > 0) {
+    throw new InvalidMetricExpressionError(
+      metric,
+      expression,
+      `${entityType}s have no stored metric ${missing.map(field => `'${field}'`).join(', ')}. Stored metrics: ${stored.join(', ')}`
+    );
+  }
+
+  return parsed;
+}
+
+const derivedExpressions = {} as Record<EntityType, Map<string, MetricExpression>>;
+for (const entityType of entityTypes) {
+  const definitions: MetricDefinition[] = metricRegistry[entityType];
+  derivedExpressions[entityType] = new Map(
+    definitions
+      .filter((m): m is DerivedMetricDefinition => m.expression !== undefined)
+      .map(m => [m.name, compileMetricExpression(entityType, m.name, m.expression)])
+  );
+}
+
+/**
+ * Every canonical metric name across entity types
+ */
+export const allMetricNames = [
+  ...new Set(entityTypes.flatMap(getMetricNames))
+] as [MetricName, ...MetricName[]];
+
+/**
+ * Resolve an alias to its canonical name, checking every entity type
+ */
+function toCanonicalName(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  for (const entityType of entityTypes) {
+    const metric = resolveMetric(entityType, value);
+    if (metric) return metric.name;
+  }
+  return value;
+}
+
+/**
+ * Metric parameter: accepts canonical names and aliases, yields the canonical name.
+ * Typed as accepting any string so clients can pass aliases.
+ */
+export const metricNameSchema = z.preprocess(toCanonicalName, z.enum(allMetricNames)) as z.ZodEffects<
+  z.ZodEnum<[MetricName, ...MetricName[]]>,
+  MetricName,
+  MetricName | (string & {})
+>;
+
+/**
+ * Human-readable list of metrics per entity type, for parameter descriptions
+ */
+export function describeMetricsByEntityType(): string {
+  return entityTypes.map(entityType => `${entityType}: ${getMetricNames(entityType).join(', ')}`).join('; ');
+}
+
+/**
+ * Refinement checking that the named metric parameters exist for the params' entity type
+ */
+export function checkMetricsForEntityType<Key extends string>(...keys: Key[]) {
+  return (params: { entityType: EntityType } & { [K in Key]?: string | string[] }, ctx: z.RefinementCtx) => {
+    const check = (value: string, path: (string | number)[]) => {
+      if (!resolveMetric(params.entityType, value)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: `Metric '${value}' is not available for ${params.entityType}s. ` +
+            `Available metrics: ${getMetricNames(params.entityType).join(', ')}`
+        });
+      }
+    };
+
+    for (const key of keys) {
+      const value = params[key];
+      if (typeof value === 'string') {
+        check(value, [key]);
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => check(item, [key, index]));
+      }
+    }
+  };
+}
+
+/**
+ * Read a stored metric by dotted path
+ */
+function readStoredMetric(entity: Entity, metric: string): number | undefined {
+  const value = metric
+    .split('.')
+    .reduce<unknown>((node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), entity.metrics);
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Read a metric value (by dotted path) from an entity, or undefined if it has no such numeric metric.
+ * Given the entity type, derived metrics are computed too.
+ */
+export function getMetricValue(entity: Entity, metric: string, entityType?: EntityType): number | undefined {
+  const value = readStoredMetric(entity, metric);
+  if (value !== undefined || !entityType) return value;
+
+  const expression = derivedExpressions[entityType].get(metric);
+  return expression && evaluateMetricExpression(expression, field => readStoredMetric(entity, field));
+}
+
+/**
+ * Read a metric value, throwing UndefinedMetricValueError if it is derived but
+ * can't be computed for the entity, or UnknownMetricError if the entity has no such metric
+ */
+export function requireMetricValue(entity: Entity, entityType: EntityType, metric: string): number {
+  const value = getMetricValue(entity, metric, entityType);
+  if (value !== undefined) return value;
+
+  const expression = derivedExpressions[entityType].get(metric);
+  if (expression) {
+    throw new UndefinedMetricValueError(metric, entity.id, expressionFields(expression));
+  }
+  throw new UnknownMetricError(metric, entity.id, Object.keys(flattenMetrics(entity, entityType)));
+}
+
+/**
+ * Whether a metric of the entity type is computed rather than stored
+ */
+export function isDerivedMetric(entityType: EntityType, metric: string): boolean {
+  return derivedExpressions[entityType].has(metric);
+}
+
+/**
+ * Flatten an entity's metrics to numeric values keyed by dotted path.
+ * Given the entity type, derived metrics that can be computed are included.
+ */
+export function flattenMetrics(entity: Entity, entityType?: EntityType): Record<string, number> {
+  const flattened: Record<string, number> = {};
+
+  const visit = (node: object, prefix: string) => {
+    for (const [key, value] of Object.entries(node)) {
+      if (typeof value === 'number') {
+        flattened[prefix + key] = value;
+      } else if (value && typeof value === 'object') {
+        visit(value, `${prefix}${key}.`);
+      }
+    }
+  };
+  visit(entity.metrics, '');
+
+  if (entityType) {
+    for (const [name, expression] of derivedExpressions[entityType]) {
+      const value = evaluateMetricExpression(expression, field => flattened[field]);
+      if (value !== undefined) flattened[name] = value;
+    }
+  }
+
+  return flattened;
+}
+
+/**
+ * Yearly series of a metric for an entity. Derived metrics are computed from
+ * their inputs' series for the years all of them cover. Null if there is
+ * nothing stored to read or compute the series from.
+ */
+export function getMetricTrend(dataSource: DataSource, entityId: string, metric: string): TrendPoint[] | null {
+  const stored = dataSource.getTrend(entityId, metric);
+  if (stored) return stored;
+
+  const entityType = findEntityType(dataSource, entityId);
+  const expression = entityType && derivedExpressions[entityType].get(metric);
+  if (!expression) return null;
+
+  const inputs = new Map<string, Map<number, number>>();
+  for (const field of expressionFields(expression)) {
+    const series = dataSource.getTrend(entityId, field);
+    if (!series) return null;
+    inputs.set(field, new Map(series.map(point => [point.year, point.value])));
+  }
+
+  const [first] = inputs.values();
+  const points = [...(first?.keys() ?? [])]
+    .sort((a, b) => a - b)
+    .flatMap(year => {
+      const value = evaluateMetricExpression(expression, field => inputs.get(field)?.get(year));
+      return value === undefined ? [] : [{ year, value }];
+    });
+
+  return points.length > 0 ? points : null;
+}
+
+/**
+ * Metrics with a trend series for an entity: the stored ones, then derived ones computable from them
+ */
+export function getTrendMetricNames(dataSource: DataSource, entityId: string): string[] {
+  const stored = dataSource.getTrendMetrics(entityId);
+  const entityType = findEntityType(dataSource, entityId);
+  if (!entityType || stored.length === 0) return stored;
+
+  const derivable = [...derivedExpressions[entityType].keys()]
+    .filter(metric => !stored.includes(metric) && getMetricTrend(dataSource, entityId, metric) !== null);
+  return [...stored, ...derivable];
+}
+
+/**
+ * Like getTrendMetricNames, but throws NoTrendDataError if the entity has no
+ * series, or EntityNotFoundError if it doesn't exist
+ */
+export function requireTrendMetricNames(dataSource: DataSource, entityId: string): string[] {
+  const metrics = getTrendMetricNames(dataSource, entityId);
+  if (metrics.length > 0) return metrics;
+
+  if (findEntityType(dataSource, entityId)) {
+    throw new NoTrendDataError(entityId);
+  }
+  throw new EntityNotFoundError(entityId, undefined, suggestEntities(dataSource, entityId));
+}
+
+/**
+ * Like getMetricTrend, but throws UnknownMetricError if the entity has series
+ * for other metrics only (see requireTrendMetricNames for the other errors)
+ */
+export function requireMetricTrend(dataSource: DataSource, entityId: string, metric: string): TrendPoint[] {
+  const series = getMetricTrend(dataSource, entityId, metric);
+  if (series) return series;
+
+  throw new UnknownMetricError(metric, entityId, requireTrendMetricNames(dataSource, entityId));
+}
+
+/**
+ * Attach the registry's unit and description, and the entity's period, to a metric value
+ */
+export function annotateMetric(entity: Entity, entityType: EntityType, metric: string, value: number): AnnotatedMetric {
+  const definition = resolveMetric(entityType, metric);
+  return {
+    value,
+    label: definition?.label,
+    unit: definition?.unit,
+    description: definition?.description,
+    period: entity.period ?? null
+  };
+}
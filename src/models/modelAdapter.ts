@@ -0,0 +1,45 @@
+import { FunctionDefinition } from '../toolFormats';
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** Arguments as sent when they could not be parsed; `arguments` is then empty */
+  invalidArguments?: string;
+}
+
+/**
+ * Provider-neutral conversation message
+ */
+export type ConversationMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+/**
+ * Tokens consumed by one or more model calls
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * One model turn: a final answer, or tool calls to run before asking again
+ */
+export interface ModelResponse {
+  content: string | null;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage;
+}
+
+/**
+ * What the orchestration loop needs from a model provider. Adapters convert
+ * the conversation and tool definitions to the provider's format.
+ */
+export interface ModelAdapter {
+  complete(request: { messages: ConversationMessage[]; tools: FunctionDefinition[] }): Promise<ModelResponse>;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import OpenAI from 'openai';
+import { createOpenAIAdapter } from './openaiAdapter';
+import { queryFunctionDefinitions } from '../toolFormats';
+
+type ChatRequest = OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
+
+function fakeClient(message: object, requests: unknown[]) {
+  return {
+    chat: {
+      completions: {
+        create: async (body: unknown) => {
+          requests.push(body);
+          return { choices: [{ message }], usage: { prompt_tokens: 50, completion_tokens: 7 } };
+        }
+      }
+    }
+  } as unknown as OpenAI;
+}
+
+describe('createOpenAIAdapter', () => {
+  it('should send strict tools and conversation messages in Chat Completions format', async () => {
+    const requests: ChatRequest[] = [];
+    const adapter = createOpenAIAdapter({ client: fakeClient({ content: 'Done' }, requests), model: 'gpt-4o' });
+
+    const response = await adapter.complete({
+      tools: queryFunctionDefinitions(),
+      messages: [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: null, toolCalls: [{ id: 'c1', name: 'getEntity', arguments: { entityType: 'author', entityId: 'auth_001' } }] },
+        { role: 'tool', toolCallId: 'c1', name: 'getEntity', content: '{"result":null}' }
+      ]
+    });
+
+    expect(response).toEqual({ content: 'Done', toolCalls: [], usage: { inputTokens: 50, outputTokens: 7 } });
+    expect(requests[0].parallel_tool_calls).toBe(false);
+    expect(requests[0].tools[0].function).toMatchObject({ name: 'getEntity', strict: true });
+    expect(requests[0].messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'c1', type: 'function', function: { name: 'getEntity', arguments: '{"entityType":"author","entityId":"auth_001"}' } }]
+      },
+      { role: 'tool', tool_call_id: 'c1', content: '{"result":null}' }
+    ]);
+  });
+
+  it('should parse tool calls from the response', async () => {
+    const adapter = createOpenAIAdapter({
+      client: fakeClient({
+        content: null,
+        tool_calls: [{ id: 'c2', type: 'function', function: { name: 'getTrend', arguments: '{"entityId":"auth_001","metric":"publications","startYear":null}' } }]
+      }, []),
+      model: 'gpt-4o'
+    });
+
+    const response = await adapter.complete({ tools: [], messages: [{ role: 'user', content: 'Trend?' }] });
+    expect(response.toolCalls).toEqual([
+      { id: 'c2', name: 'getTrend', arguments: { entityId: 'auth_001', metric: 'publications', startYear: null } }
+    ]);
+  });
+
+  it('should keep malformed tool call arguments for the orchestrator to report', async () => {
+    const adapter = createOpenAIAdapter({
+      client: fakeClient({
+        content: null,
+        tool_calls: [{ id: 'c3', type: 'function', function: { name: 'getEntity', arguments: '{"entityType":"author",' } }]
+      }, []),
+      model: 'gpt-4o'
+    });
+
+    const response = await adapter.complete({ tools: [], messages: [{ role: 'user', content: 'Who?' }] });
+    expect(response.toolCalls).toEqual([
+      { id: 'c3', name: 'getEntity', arguments: {}, invalidArguments: '{"entityType":"author",' }
+    ]);
+  });
+});
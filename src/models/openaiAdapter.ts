@@ -0,0 +1,82 @@
+import OpenAI from 'openai';
+import { toOpenAITool } from '../toolFormats';
+import { ConversationMessage, ModelAdapter, ToolCall } from './modelAdapter';
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+type ChatTool = OpenAI.Chat.Completions.ChatCompletionTool;
+
+/**
+ * Options for the OpenAI Chat Completions adapter
+ */
+export interface OpenAIAdapterOptions {
+  client: OpenAI;
+  model: string;
+  /** Cap on tokens generated per model call */
+  maxOutputTokens?: number;
+}
+
+/**
+ * Tool call from the response. Malformed argument JSON is kept as sent, for
+ * the orchestrator to report back to the model.
+ */
+function toToolCall(id: string, name: string, args: string): ToolCall {
+  try {
+    return { id, name, arguments: JSON.parse(args) };
+  } catch {
+    return { id, name, arguments: {}, invalidArguments: args };
+  }
+}
+
+function toChatMessage(message: ConversationMessage): ChatMessage {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.invalidArguments ?? JSON.stringify(call.arguments) }
+          }))
+        })
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return message;
+  }
+}
+
+/**
+ * Model adapter for OpenAI Chat Completions, using strict-mode tools.
+ * Parallel tool calls are disabled because strict mode doesn't support them.
+ */
+export function createOpenAIAdapter(options: OpenAIAdapterOptions): ModelAdapter {
+  return {
+    async complete({ messages, tools }) {
+      const response = await options.client.chat.completions.create({
+        model: options.model,
+        messages: messages.map(toChatMessage),
+        tools: tools.map(toOpenAITool) as ChatTool[],
+        tool_choice: 'auto',
+        parallel_tool_calls: false,
+        ...(options.maxOutputTokens && { max_completion_tokens: options.maxOutputTokens })
+      });
+
+      const message = response.choices[0].message;
+      return {
+        content: message.content,
+        toolCalls: (message.tool_calls ?? []).flatMap(call =>
+          call.type === 'function'
+            ? [toToolCall(call.id, call.function.name, call.function.arguments)]
+            : []
+        ),
+        usage: response.usage && {
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import { ConversationMessage, ModelAdapter, ModelResponse, ToolCall } from './modelAdapter';
+
+/**
+ * A scripted model turn. Tool call ids default to `call_<n>`, numbered
+ * across the whole script.
+ */
+export interface ScriptedResponse {
+  content?: string | null;
+  toolCalls?: (Omit<ToolCall, 'id'> & { id?: string })[];
+  usage?: ModelResponse['usage'];
+}
+
+/**
+ * A fixed turn, or one computed from the conversation so far (e.g. to use
+ * an id returned by an earlier tool call)
+ */
+export type ScriptedStep = ScriptedResponse | ((messages: ConversationMessage[]) => ScriptedResponse);
+
+/**
+ * Deterministic model that replays a script, one step per call, for
+ * exercising the orchestration loop offline. Every request it received is
+ * kept in `requests`.
+ */
+export function createScriptedAdapter(steps: ScriptedStep[]): ModelAdapter & { requests: ConversationMessage[][] } {
+  const requests: ConversationMessage[][] = [];
+  let callCount = 0;
+
+  return {
+    requests,
+
+    async complete({ messages }) {
+      requests.push([...messages]);
+      const step = steps[requests.length - 1];
+      if (!step) {
+        throw new Error(`Scripted adapter has no response for call ${requests.length} (script has ${steps.length})`);
+      }
+
+      const response = typeof step === 'function' ? step(messages) : step;
+      return {
+        content: response.content ?? null,
+        toolCalls: (response.toolCalls ?? []).map(call => ({ ...call, id: call.id ?? `call_${++callCount}` })),
+        usage: response.usage
+      };
+    }
+  };
+}
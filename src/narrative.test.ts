@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { describeResult, formatMetricDifference, formatMetricValue } from './narrative';
+import { executeQuery } from './execution';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { mockAuthors } from './data/mockData';
+
+function narrate(functionName: string, params: unknown) {
+  const outcome = executeQuery(functionName, params, mockDataSource, { narrative: true });
+  if (!outcome.success) throw new Error(outcome.body.error);
+  return outcome.narrative;
+}
+
+describe('formatMetricValue', () => {
+  it('should format values for their unit', () => {
+    expect(formatMetricValue(342891, 'count')).toBe('342,891');
+    expect(formatMetricValue(0.68, 'proportion')).toBe('68.0%');
+    expect(formatMetricValue(94.2, 'percent')).toBe('94.2%');
+    expect(formatMetricValue(2.345, 'ratio')).toBe('2.35');
+    expect(formatMetricValue(42, 'index')).toBe('42');
+  });
+
+  it('should give differences between percentages in percentage points', () => {
+    expect(formatMetricDifference(-0.04, 'proportion')).toBe('4.0 percentage points');
+    expect(formatMetricDifference(2.7, 'percent')).toBe('2.7 percentage points');
+    expect(formatMetricDifference(-4089, 'count')).toBe('4,089');
+  });
+});
+
+describe('describeResult', () => {
+  it.each([
+    ['compareEntities', { entityType: 'author', entityIdA: 'auth_002', entityIdB: 'auth_001', metric: 'citations' },
+      "Prof. James Anderson's Citation Count is 8,912, 4,089 (84.8%) higher than Dr. Sarah Chen's 4,823."],
+    ['compareEntities', { entityType: 'institution', entityIdA: 'inst_001', entityIdB: 'inst_002', metric: 'collaborationRate' },
+      "Massachusetts Institute of Technology's Collaboration Rate is 68.0%, 4.0 percentage points (5.6%) lower than University of Oxford's 72.0%."],
+    ['getTrend', { entityId: 'auth_001', metric: 'publications' },
+      "Dr. Sarah Chen's Scholarly Output went from 12 in 2019 to 19 in 2023 (up 58.3%), peaking at 22 in 2022."],
+    ['getTrend', { entityId: 'auth_001', metric: 'publications', startYear: 2030 },
+      'No Scholarly Output data for Dr. Sarah Chen from 2030.'],
+    ['getTopEntities', { entityType: 'journal', metric: 'sjr', limit: 3 },
+      'Top 3 journals by SCImago Journal Rank: 1. Nature (14.23), 2. Science (13.45), 3. Cell (12.89).'],
+    ['getTopEntities', { entityType: 'author', metric: 'citations', limit: 1 },
+      'Prof. James Anderson has the highest Citation Count of any author (8,912).'],
+    ['getMetrics', { entityType: 'institution', entityId: 'inst_002', metricNames: ['collaborationRate', 'citations'] },
+      'University of Oxford (2019–2023): Collaboration Rate 72.0%; Citation Count 412,567.'],
+    ['compareMultipleEntities', { entityType: 'author', entityIds: ['auth_001', 'auth_002', 'auth_003'], metrics: ['hIndex'] },
+      'On h-index, Prof. James Anderson ranks first (58), followed by Dr. Sarah Chen (42) and Dr. Maria Rodriguez (31); the group mean is 43.67.'],
+    ['getBenchmark', { entityType: 'institution', entityId: 'inst_001', metrics: ['citations'] },
+      'Benchmarked against every other entity of the same type (4 peers): Massachusetts Institute of Technology ranks 4th of 5 on Citation Count ' +
+      '(342,891 against a peer mean of 344,089), ahead of 25.0% of peers.'],
+    ['getRelatedEntities', { entityType: 'author', entityId: 'auth_001', relatedType: 'institution' },
+      'Dr. Sarah Chen has been affiliated with Massachusetts Institute of Technology (2016–present) and ETH Zurich (2011–2015).'],
+    ['getAuthorJournals', { authorId: 'auth_002' },
+      'Prof. James Anderson has published in Science (11 publications) and Nature (7 publications).'],
+    ['getEntityCollaborationNetwork', { entityType: 'author', entityId: 'auth_001' },
+      'Dr. Sarah Chen has 2 direct author collaborators; the strongest ties are with Prof. James Anderson (6 co-publications) and Dr. Maria Rodriguez (3 co-publications).'],
+    ['getTrendInsights', { entityId: 'auth_002', metric: 'citations', startYear: 2022 },
+      "Prof. James Anderson's Citation Count grew from 1,904 in 2022 to 2,011 in 2023, a compound annual growth rate of +5.6%. " +
+      'On a linear fit, Citation Count rose by 107 a year (R² = 1.00). Citation Count peaked at 2,011 in 2023. Citation Count was lowest at 1,904 in 2022.'],
+    ['getTopEntities', { entityType: 'institution', metric: 'collaborationRate', filter: { country: 'United Kingdom' }, sortOrder: 'asc', limit: 1 },
+      'University of Oxford has the lowest Collaboration Rate of the 2 matching institutions (72.0%).'],
+    ['getTopEntities', { entityType: 'author', metric: 'hIndex', limit: 2 },
+      'Top 2 of 3 authors by h-index: 1. Prof. James Anderson (58), 2. Dr. Sarah Chen (42).'],
+    ['searchEntities', { query: 'University', limit: 1 },
+      'Found 3 entities matching "University": Stanford University. Showing 1 of 3.'],
+    ['searchEntities', { entityType: 'journal', query: 'lancet' }, 'No journals match "lancet".'],
+    ['aggregateMetric', { entityType: 'institution', metric: 'collaborationRate', groupBy: 'country', statistics: ['count', 'mean'] },
+      'Summary of Collaboration Rate for institutions by country: Switzerland (count 1, mean 65.0%); ' +
+      'United Kingdom (count 2, mean 73.0%); United States (count 2, mean 67.0%).']
+  ])('should describe %s results', (functionName, params, narrative) => {
+    expect(narrate(functionName, params)).toBe(narrative);
+  });
+
+  it('should describe entities and available trends', () => {
+    expect(narrate('getEntity', { entityType: 'journal', entityId: 'jour_001' })).toMatch(/^Nature \(Springer Nature\), 2019–2023: Citations per Document [\d.]+; SCImago Journal Rank 14.23;/);
+    expect(narrate('getAvailableTrends', { entityId: 'auth_002' }))
+      .toBe('Prof. James Anderson has yearly data for Scholarly Output (2019–2023), Citation Count (2019–2023) and Citations per Publication (2019–2023).');
+  });
+
+  it('should mark ranked entities without the metric', () => {
+    const items = [mockAuthors[1], { ...mockAuthors[0], metrics: {} }];
+    expect(describeResult('getTopEntities', { entityType: 'author', metric: 'hIndex', sortOrder: 'desc' }, { items, totalCount: 2 }))
+      .toBe('Top 2 authors by h-index: 1. Prof. James Anderson (58), 2. Dr. Sarah Chen (n/a).');
+  });
+
+  it('should describe annotated metrics by value', () => {
+    expect(describeResult('getMetrics', { entityType: 'author', entityId: 'auth_001' }, { hIndex: { value: 42, period: null } }))
+      .toBe('Dr. Sarah Chen (2019–2023): h-index 42.');
+  });
+});
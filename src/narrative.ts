@@ -0,0 +1,348 @@
+import { z } from 'zod';
+import { peerGroups } from './benchmarking';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { decodeCursor, isEmptyFilter } from './listing';
+import { getMetricValue, MetricUnit, metricRegistry, resolveMetric } from './metrics';
+import type { queryFunctions } from './queries';
+import { Entity, EntityType, entityTypes, QueryCell, relationshipEndpoints, TimePeriod } from './types';
+
+type QueryName = keyof typeof queryFunctions;
+
+type Narrator<N extends QueryName> = (
+  result: ReturnType<(typeof queryFunctions)[N]['function']>,
+  params: z.infer<(typeof queryFunctions)[N]['schema']>,
+  dataSource: DataSource
+) => string;
+
+const decimals = (digits: number) => new Intl.NumberFormat('en-US', { maximumFractionDigits: digits });
+const oneDecimal = new Intl.NumberFormat('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/**
+ * Format a metric value for its unit: counts as whole numbers, proportions
+ * (0-1) and percents (0-100) as percentages, scores to two decimals
+ */
+export function formatMetricValue(value: number, unit?: MetricUnit): string {
+  switch (unit) {
+    case 'count': return decimals(0).format(value);
+    case 'proportion': return `${oneDecimal.format(value * 100)}%`;
+    case 'percent': return `${oneDecimal.format(value)}%`;
+    default: return decimals(2).format(value);
+  }
+}
+
+/**
+ * Format the size of a difference between two values of a metric. Differences
+ * between percentages are in percentage points, not percent.
+ */
+export function formatMetricDifference(difference: number, unit?: MetricUnit): string {
+  const size = Math.abs(difference);
+  switch (unit) {
+    case 'proportion': return `${oneDecimal.format(size * 100)} percentage points`;
+    case 'percent': return `${oneDecimal.format(size)} percentage points`;
+    default: return formatMetricValue(size, unit);
+  }
+}
+
+function formatPercentChange(percent: number): string {
+  return `${oneDecimal.format(Math.abs(percent))}%`;
+}
+
+/**
+ * "A, B and C", or with another conjunction ("A or B")
+ */
+export function describeList(items: string[], conjunction = 'and'): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`;
+}
+
+function pluralNoun(noun: string): string {
+  return noun.endsWith('y') ? `${noun.slice(0, -1)}ies` : `${noun}s`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${count === 1 ? noun : pluralNoun(noun)}`;
+}
+
+/**
+ * Rows of a query table spelled out in a narrative; the rest are counted
+ */
+const MAX_DESCRIBED_ROWS = 5;
+
+function formatCell(cell: QueryCell): string {
+  if (cell === null) return 'n/a';
+  return typeof cell === 'number' ? cell.toLocaleString('en-US', { maximumFractionDigits: 2 }) : cell;
+}
+
+/**
+ * Note on a page that holds only some of the results, or nothing
+ */
+function describeShown(shown: number, totalCount: number): string {
+  return shown < totalCount ? ` Showing ${shown} of ${totalCount}.` : '';
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+function describePeriod(period?: TimePeriod | null): string {
+  if (!period) return '';
+  return period.start === period.end ? ` (${period.start})` : ` (${period.start}–${period.end})`;
+}
+
+function possessive(name: string): string {
+  return name.endsWith('s') ? `${name}'` : `${name}'s`;
+}
+
+/**
+ * A metric's label and a formatter for its values
+ */
+function metricOf(entityType: EntityType, metric: string) {
+  const definition = resolveMetric(entityType, metric);
+  const unit = definition?.unit;
+  return {
+    label: definition?.label ?? metric,
+    unit,
+    format: (value: number) => formatMetricValue(value, unit)
+  };
+}
+
+/**
+ * Find an entity by id when the query didn't say which type it is
+ */
+function findEntity(dataSource: DataSource, entityId: string): { entity: Entity; entityType: EntityType } | null {
+  for (const entityType of entityTypes) {
+    const entity = dataSource.getEntity(entityType, entityId);
+    if (entity) return { entity, entityType };
+  }
+  return null;
+}
+
+function describeMetricValues(entityType: EntityType, values: [string, number][]): string {
+  return values.map(([metric, value]) => {
+    const { label, format } = metricOf(entityType, metric);
+    return `${label} ${format(value)}`;
+  }).join('; ');
+}
+
+function describeEntity(entity: Entity, entityType: EntityType): string {
+  const context = 'affiliation' in entity ? entity.affiliation : 'country' in entity ? entity.country : 'publisher' in entity ? entity.publisher : undefined;
+  const values = metricRegistry[entityType].flatMap(({ name }): [string, number][] => {
+    const value = getMetricValue(entity, name);
+    return value === undefined ? [] : [[name, value]];
+  });
+  return `${entity.name}${context ? ` (${context})` : ''}${entity.period ? `, ${entity.period.start}–${entity.period.end}` : ''}: ` +
+    `${describeMetricValues(entityType, values)}.`;
+}
+
+const narrators: { [N in QueryName]: Narrator<N> } = {
+  getEntity: (entity, { entityType }) => describeEntity(entity, entityType),
+
+  searchEntities: ({ items, totalCount }, { entityType, query }) =>
+    totalCount === 0
+      ? `No ${pluralNoun(entityType ?? 'entity')} match "${query}".`
+      : `Found ${plural(totalCount, entityType ?? 'entity')} matching "${query}": ${describeList(items.map(hit => hit.name))}.` +
+        describeShown(items.length, totalCount),
+
+  getMetrics: (metrics, { entityType, entityId }, dataSource) => {
+    const entity = dataSource.getEntity(entityType, entityId);
+    const values = Object.entries(metrics).map(([metric, value]): [string, number] =>
+      [metric, typeof value === 'number' ? value : value.value]
+    );
+    return `${entity?.name ?? entityId}${describePeriod(entity?.period)}: ${describeMetricValues(entityType, values)}.`;
+  },
+
+  compareEntities: ({ entityA, entityB, difference, percentDifference }, { entityType, metric }) => {
+    const { label, unit, format } = metricOf(entityType, metric);
+    if (difference === 0) {
+      return `${entityA.name} and ${entityB.name} have the same ${label}: ${format(entityA.value)}.`;
+    }
+    const relative = entityB.value !== 0 ? ` (${formatPercentChange(percentDifference)})` : '';
+    return `${possessive(entityA.name)} ${label} is ${format(entityA.value)}, ` +
+      `${formatMetricDifference(difference, unit)}${relative} ${difference > 0 ? 'higher' : 'lower'} than ` +
+      `${possessive(entityB.name)} ${format(entityB.value)}.`;
+  },
+
+  compareMultipleEntities: ({ entityType, entities, metrics }) => {
+    const nameOf = (id: string) => entities.find(e => e.id === id)?.name ?? id;
+    return metrics.map(({ metric, mean, excludedEntityIds, values }) => {
+      const { label, format } = metricOf(entityType, metric);
+      const ranked = [...values].sort((a, b) => a.rank - b.rank);
+      const leaders = ranked.filter(cell => cell.rank === 1);
+      const rest = ranked.filter(cell => cell.rank !== 1).map(cell => `${nameOf(cell.entityId)} (${format(cell.value)})`);
+
+      const lead = leaders.length > 1
+        ? `${describeList(leaders.map(cell => nameOf(cell.entityId)))} tie for first (${format(leaders[0].value)})`
+        : `${nameOf(leaders[0].entityId)} ranks first (${format(leaders[0].value)})`;
+      const missing = excludedEntityIds.length > 0
+        ? ` ${describeList(excludedEntityIds.map(nameOf))} ${excludedEntityIds.length === 1 ? 'has' : 'have'} no value.`
+        : '';
+      return `On ${label}, ${lead}${rest.length > 0 ? `, followed by ${describeList(rest)}` : ''}; the group mean is ${format(mean)}.${missing}`;
+    }).join(' ');
+  },
+
+  getBenchmark: ({ entity, entityType, peerGroup, metrics }) => {
+    const peers = peerGroups.find(group => group.name === peerGroup.name)?.description ?? 'the chosen peers';
+    return [
+      `Benchmarked against ${peers} (${plural(peerGroup.peers.length, 'peer')}):`,
+      ...metrics.map(({ metric, value, peerMean, excludedPeers, rank, percentile }) => {
+        const { label, format } = metricOf(entityType, metric);
+        const excluded = excludedPeers > 0 ? `, leaving out ${plural(excludedPeers, 'peer')} without a value` : '';
+        return `${entity.name} ranks ${ordinal(rank)} of ${peerGroup.peers.length - excludedPeers + 1} on ${label} ` +
+          `(${format(value)} against a peer mean of ${format(peerMean)}), ahead of ${formatPercentChange(percentile)} of peers${excluded}.`;
+      })
+    ].join(' ');
+  },
+
+  getTrend: (points, { entityId, metric, startYear, endYear }, dataSource) => {
+    const found = findEntity(dataSource, entityId);
+    const name = found?.entity.name ?? entityId;
+    const { label, unit, format } = metricOf(found?.entityType ?? 'author', metric);
+
+    if (points.length === 0) {
+      const range = startYear && endYear ? ` between ${startYear} and ${endYear}` : startYear ? ` from ${startYear}` : endYear ? ` up to ${endYear}` : '';
+      return `No ${label} data for ${name}${range}.`;
+    }
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (points.length === 1) {
+      return `${possessive(name)} ${label} was ${format(first.value)} in ${first.year}.`;
+    }
+
+    const change = last.value - first.value;
+    let movement = 'unchanged';
+    if (change !== 0) {
+      const relative = first.value !== 0 && unit !== 'proportion' && unit !== 'percent'
+        ? formatPercentChange((change / first.value) * 100)
+        : formatMetricDifference(change, unit);
+      movement = `${change > 0 ? 'up' : 'down'} ${relative}`;
+    }
+
+    const peak = points.reduce((best, point) => (point.value > best.value ? point : best));
+    const peakNote = peak !== first && peak !== last ? `, peaking at ${format(peak.value)} in ${peak.year}` : '';
+    return `${possessive(name)} ${label} went from ${format(first.value)} in ${first.year} to ${format(last.value)} in ${last.year} ` +
+      `(${movement})${peakNote}.`;
+  },
+
+  getAvailableTrends: (trends, { entityId }, dataSource) => {
+    const found = findEntity(dataSource, entityId);
+    const series = trends.map(({ metric, startYear, endYear }) =>
+      `${metricOf(found?.entityType ?? 'author', metric).label} (${startYear}–${endYear})`
+    );
+    return `${found?.entity.name ?? entityId} has yearly data for ${describeList(series)}.`;
+  },
+
+  getTrendInsights: ({ findings }) => findings.map(finding => finding.statement).join(' '),
+
+  getTopEntities: ({ items, totalCount }, params) => {
+    const { entityType, metric, filter, sortOrder } = params;
+    const { label, format } = metricOf(entityType, metric);
+    const offset = decodeCursor(params);
+    const valueOf = (entity: Entity) => {
+      const value = getMetricValue(entity, metric, entityType);
+      return value === undefined ? 'n/a' : format(value);
+    };
+    const ranked = items.map((entity, index) => `${offset + index + 1}. ${entity.name} (${valueOf(entity)})`);
+    if (items.length === 0) {
+      if (offset > 0) return `No more ${entityType}s to rank.`;
+      return isEmptyFilter(filter) ? `No ${entityType}s to rank.` : `No ${entityType}s match the filter.`;
+    }
+    if (offset > 0) {
+      return `${entityType[0].toUpperCase()}${entityType.slice(1)}s ${offset + 1}–${offset + items.length} of ${totalCount} by ${label}: ${ranked.join(', ')}.`;
+    }
+    if (items.length === 1) {
+      const scope = isEmptyFilter(filter) ? `any ${entityType}` : `the ${plural(totalCount, `matching ${entityType}`)}`;
+      return `${items[0].name} has the ${sortOrder === 'asc' ? 'lowest' : 'highest'} ${label} of ${scope} (${valueOf(items[0])}).`;
+    }
+    const of = totalCount > items.length ? ` of ${totalCount}` : '';
+    return `${sortOrder === 'asc' ? 'Bottom' : 'Top'} ${items.length}${of} ${entityType}s by ${label}: ${ranked.join(', ')}.`;
+  },
+
+  getRelatedEntities: describeRelated,
+  getInstitutionAuthors: describeRelated,
+  getAuthorJournals: describeRelated,
+
+  getEntityCollaborationNetwork: ({ center, entityType, nodes, edges, truncated }, { startYear, endYear }) => {
+    const nameOf = (id: string) => nodes.find(node => node.id === id)?.name ?? id;
+    const years = startYear && endYear ? ` between ${startYear} and ${endYear}` : startYear ? ` since ${startYear}` : endYear ? ` up to ${endYear}` : '';
+    const direct = edges
+      .filter(edge => edge.source === center || edge.target === center)
+      .sort((a, b) => b.weight - a.weight);
+
+    if (direct.length === 0) {
+      return `${nameOf(center)} has no recorded collaborators${years}.`;
+    }
+
+    const strongest = direct.slice(0, 3).map(edge =>
+      `${nameOf(edge.source === center ? edge.target : edge.source)} (${plural(edge.weight, 'co-publication')})`
+    );
+    const further = nodes.filter(node => node.depth > 1).length;
+    return `${nameOf(center)} has ${plural(direct.length, `direct ${entityType} collaborator`)}${years}; ` +
+      `the strongest ${direct.length === 1 ? 'tie is' : 'ties are'} with ${describeList(strongest)}.` +
+      (further > 0 ? ` The network reaches ${plural(further, `further ${entityType}`)}.` : '') +
+      (truncated ? ` It was cut off at ${plural(nodes.length, 'node')}.` : '');
+  },
+
+  aggregateMetric: ({ entityType, metric, groupBy, columns, rows }) => {
+    const { label, format } = metricOf(entityType, metric);
+    const statistics = columns.filter(column => column !== groupBy);
+    const describe = (row: Record<string, QueryCell>) => statistics.map(column => {
+      const value = row[column];
+      return `${column} ${typeof value !== 'number' ? 'n/a' : column === 'count' ? value : format(value)}`;
+    }).join(', ');
+
+    if (!groupBy) return `Summary of ${label} across ${entityType}s: ${describe(rows[0])}.`;
+    if (rows.length === 0) return `No ${entityType}s to aggregate.`;
+    const groups = rows.slice(0, MAX_DESCRIBED_ROWS).map(row => `${row[groupBy] ?? `no ${groupBy}`} (${describe(row)})`);
+    return `Summary of ${label} for ${entityType}s by ${groupBy}: ${groups.join('; ')}.` +
+      (rows.length > groups.length ? ` ${plural(rows.length - groups.length, 'more group')} not shown.` : '');
+  },
+
+  runQuery: ({ columns, items, totalCount }) => {
+    if (totalCount === 0) return 'The query matched no rows.';
+    const described = items.slice(0, MAX_DESCRIBED_ROWS).map(row => columns.map(column => `${column} ${formatCell(row[column])}`).join(', '));
+    return `The query returned ${plural(totalCount, 'row')}: ${described.join('; ')}.` + describeShown(described.length, totalCount);
+  }
+};
+
+function describeRelated(result: ReturnType<(typeof queryFunctions)['getRelatedEntities']['function']>): string {
+  const { entity, entityType, relatedType, relationship, related, totalCount } = result;
+  if (related.length === 0) {
+    return totalCount > 0 ? `No more ${relatedType}s are linked to ${entity.name}.` : `No ${relatedType}s are linked to ${entity.name}.`;
+  }
+  const shown = describeShown(related.length, totalCount);
+
+  const items = related.map(({ name, startYear, endYear, publications }) => {
+    const details = [
+      ...(startYear !== undefined ? [`${startYear}–${endYear ?? 'present'}`] : []),
+      ...(publications !== undefined ? [plural(publications, 'publication')] : [])
+    ];
+    return details.length > 0 ? `${name} (${details.join(', ')})` : name;
+  });
+
+  const forward = relationshipEndpoints[relationship].from === entityType;
+  const many = related.length > 1;
+  if (relationship === 'affiliation') {
+    return (forward
+      ? `${entity.name} ${many ? 'has been' : 'is'} affiliated with ${describeList(items)}.`
+      : `${describeList(items)} ${many ? 'are' : 'is'} affiliated with ${entity.name}.`) + shown;
+  }
+  return (forward
+    ? `${entity.name} has published in ${describeList(items)}.`
+    : `${describeList(items)} ${many ? 'have' : 'has'} published in ${entity.name}.`) + shown;
+}
+
+/**
+ * Describe a query function's result in a sentence or two, with values
+ * formatted for their metric's unit. Params are the validated parameters the
+ * function ran with.
+ */
+export function describeResult(
+  functionName: QueryName,
+  params: unknown,
+  result: unknown,
+  dataSource: DataSource = mockDataSource
+): string {
+  const narrate = narrators[functionName] as (result: unknown, params: unknown, dataSource: DataSource) => string;
+  return narrate(result, params, dataSource);
+}
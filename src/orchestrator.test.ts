@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { runConversation, DEFAULT_SYSTEM_PROMPT } from './orchestrator';
+import { createScriptedAdapter } from './models/scriptedAdapter';
+import { ConversationMessage } from './models/modelAdapter';
+
+const usage = { inputTokens: 100, outputTokens: 20 };
+
+describe('runConversation', () => {
+  it('should run tool calls and return the final answer with a transcript', async () => {
+    const model = createScriptedAdapter([
+      { toolCalls: [{ name: 'getTopEntities', arguments: { entityType: 'author', metric: 'citations', limit: 1 } }], usage },
+      messages => {
+        const last = messages[messages.length - 1] as Extract<ConversationMessage, { role: 'tool' }>;
+        const [top] = JSON.parse(last.content).result.items;
+        return { toolCalls: [{ name: 'getTrend', arguments: { entityId: top.id, metric: 'publications', startYear: 2022 } }], usage };
+      },
+      { content: 'Prof. Anderson is the most cited author.', usage }
+    ]);
+
+    const result = await runConversation('Who is the most cited author, and how is their output trending?', { model });
+
+    expect(result.stopReason).toBe('completed');
+    expect(result.answer).toBe('Prof. Anderson is the most cited author.');
+    expect(result.iterations).toBe(3);
+    expect(result.usage).toEqual({ inputTokens: 300, outputTokens: 60 });
+    expect(result.transcript).toEqual([
+      expect.objectContaining({ iteration: 1, toolCallId: 'call_1', name: 'getTopEntities' }),
+      {
+        iteration: 2,
+        toolCallId: 'call_2',
+        name: 'getTrend',
+        arguments: { entityId: 'auth_002', metric: 'publications', startYear: 2022 },
+        result: [{ year: 2022, value: 26 }, { year: 2023, value: 25 }]
+      }
+    ]);
+  });
+
+  it('should send the system prompt, tool calls and results back to the model', async () => {
+    const model = createScriptedAdapter([
+      { toolCalls: [{ id: 'a', name: 'getEntity', arguments: { entityType: 'journal', entityId: 'jour_001' } }] },
+      { content: 'Done' }
+    ]);
+
+    await runConversation('Tell me about Nature', { model });
+
+    expect(model.requests[1].map(m => m.role)).toEqual(['system', 'user', 'assistant', 'tool']);
+    expect(model.requests[1][0]).toEqual({ role: 'system', content: DEFAULT_SYSTEM_PROMPT });
+    expect(model.requests[1][3]).toMatchObject({ role: 'tool', toolCallId: 'a', name: 'getEntity' });
+  });
+
+  it('should return failed tool calls to the model as errors', async () => {
+    const model = createScriptedAdapter([
+      { toolCalls: [{ name: 'getTrend', arguments: { entityId: 'auth_002', metric: 'hIndex' } }] },
+      { toolCalls: [{ name: 'getMetrics', arguments: { entityType: 'author' } }] },
+      { content: 'Sorry' }
+    ]);
+
+    const result = await runConversation('h-index trend for Anderson?', { model });
+
+    expect(result.transcript[0].error?.availableMetrics).toEqual(['publications', 'citations', 'citationsPerPublication']);
+    expect(result.transcript[1].error?.error).toBe('Invalid parameters');
+    expect(JSON.parse((result.messages[3] as { content: string }).content).availableMetrics).toEqual(['publications', 'citations', 'citationsPerPublication']);
+  });
+
+  it('should report unparseable tool arguments to the model and carry on', async () => {
+    const model = createScriptedAdapter([
+      { toolCalls: [{ name: 'getEntity', arguments: {}, invalidArguments: '{"entityType":' }] },
+      { toolCalls: [{ name: 'getEntity', arguments: { entityType: 'journal', entityId: 'jour_001' } }] },
+      { content: 'Nature' }
+    ]);
+
+    const result = await runConversation('Tell me about Nature', { model });
+
+    expect(result.stopReason).toBe('completed');
+    expect(result.transcript[0].error).toMatchObject({ code: 'INVALID_PARAMETERS', error: 'Tool arguments are not valid JSON: {"entityType":' });
+    expect(result.transcript[1].result).toMatchObject({ name: 'Nature' });
+  });
+
+  it('should stop at the iteration limit', async () => {
+    const lookup = { toolCalls: [{ name: 'getEntity', arguments: { entityType: 'author', entityId: 'auth_001' } }] };
+    const model = createScriptedAdapter([lookup, lookup, lookup]);
+
+    const result = await runConversation('Loop forever', { model, maxIterations: 2 });
+
+    expect(result.stopReason).toBe('maxIterations');
+    expect(result.answer).toBeNull();
+    expect(result.iterations).toBe(2);
+    expect(result.transcript).toHaveLength(2);
+  });
+
+  it('should stop once the token budget is spent', async () => {
+    const lookup = { toolCalls: [{ name: 'getEntity', arguments: { entityType: 'author', entityId: 'auth_001' } }], usage };
+    const model = createScriptedAdapter([lookup, lookup, lookup]);
+
+    const result = await runConversation('Expensive question', { model, maxTotalTokens: 200 });
+
+    expect(result.stopReason).toBe('maxTotalTokens');
+    expect(result.iterations).toBe(2);
+  });
+
+  it('should continue an earlier conversation', async () => {
+    const first = await runConversation('Hello', { model: createScriptedAdapter([{ content: 'Hi' }]), systemPrompt: 'Be brief' });
+    const model = createScriptedAdapter([{ content: 'Still here' }]);
+
+    const result = await runConversation([...first.messages, { role: 'user', content: 'Are you there?' }], { model });
+
+    expect(result.answer).toBe('Still here');
+    expect(model.requests[0].map(m => m.content)).toEqual(['Be brief', 'Hello', 'Hi', 'Are you there?']);
+  });
+
+  it('should fail when the script runs out', async () => {
+    await expect(runConversation('Hello', { model: createScriptedAdapter([]) })).rejects.toThrow('no response for call 1');
+  });
+});
@@ -0,0 +1,148 @@
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { executeQuery, QueryErrorBody, QueryOutcome, queryErrorStatus } from './execution';
+import { ConversationMessage, ModelAdapter, TokenUsage } from './models/modelAdapter';
+import { FunctionDefinition, queryFunctionDefinitions } from './toolFormats';
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are a research analytics assistant with access to the SciVal database. ' +
+  'Use the provided tools to answer questions about authors, institutions, and journals.';
+
+/**
+ * Options for a conversation
+ */
+export interface ConversationOptions {
+  model: ModelAdapter;
+  /** Data source tool calls run against (defaults to the bundled mock data) */
+  dataSource?: DataSource;
+  /** Ignored when continuing from messages that already start with a system message */
+  systemPrompt?: string;
+  /** Tools offered to the model (defaults to every query function) */
+  tools?: FunctionDefinition[];
+  /** Maximum model calls (default 5) */
+  maxIterations?: number;
+  /** Stop once the model has used this many input plus output tokens */
+  maxTotalTokens?: number;
+}
+
+/**
+ * One tool call the model made and what it got back
+ */
+export interface TranscriptEntry {
+  /** Model call (1-based) that requested the tool */
+  iteration: number;
+  toolCallId: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: QueryErrorBody;
+}
+
+/**
+ * Why the loop stopped
+ * - completed: the model answered without calling tools
+ * - maxIterations / maxTotalTokens: a limit was reached before an answer
+ */
+export type StopReason = 'completed' | 'maxIterations' | 'maxTotalTokens';
+
+export interface ConversationResult {
+  /** Final answer, or null if a limit stopped the loop first */
+  answer: string | null;
+  stopReason: StopReason;
+  iterations: number;
+  usage: TokenUsage;
+  /** Full conversation, including the system prompt, tool calls and results */
+  messages: ConversationMessage[];
+  transcript: TranscriptEntry[];
+}
+
+/**
+ * Failure for a tool call whose arguments were not valid JSON
+ */
+function invalidArgumentsOutcome(invalidArguments: string): QueryOutcome {
+  return {
+    success: false,
+    status: queryErrorStatus.INVALID_PARAMETERS,
+    body: {
+      error: `Tool arguments are not valid JSON: ${invalidArguments}`,
+      code: 'INVALID_PARAMETERS',
+      hint: 'Send the arguments as a single JSON object and retry.'
+    }
+  };
+}
+
+/**
+ * Answer a question with the model, running its tool calls against the
+ * query functions until it answers or a limit is reached.
+ *
+ * Pass a string to start a conversation, or earlier `messages` (ending with
+ * a user message) to continue one. Failed tool calls are returned to the
+ * model as error payloads so it can correct them, as are calls whose
+ * arguments the adapter could not parse.
+ */
+export async function runConversation(
+  input: string | ConversationMessage[],
+  options: ConversationOptions
+): Promise<ConversationResult> {
+  const { model, dataSource = mockDataSource, maxIterations = 5, maxTotalTokens } = options;
+  const tools = options.tools ?? queryFunctionDefinitions();
+
+  const messages: ConversationMessage[] = typeof input === 'string' ? [{ role: 'user', content: input }] : [...input];
+  if (messages[0]?.role !== 'system') {
+    messages.unshift({ role: 'system', content: options.systemPrompt ?? DEFAULT_SYSTEM_PROMPT });
+  }
+
+  const transcript: TranscriptEntry[] = [];
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let iterations = 0;
+
+  const finish = (stopReason: StopReason, answer: string | null = null): ConversationResult =>
+    ({ answer, stopReason, iterations, usage, messages, transcript });
+
+  while (iterations < maxIterations) {
+    iterations++;
+    const response = await model.complete({ messages, tools });
+
+    if (response.usage) {
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: response.content,
+      ...(response.toolCalls.length > 0 && { toolCalls: response.toolCalls })
+    });
+
+    if (response.toolCalls.length === 0) {
+      return finish('completed', response.content);
+    }
+
+    for (const call of response.toolCalls) {
+      const outcome = call.invalidArguments !== undefined
+        ? invalidArgumentsOutcome(call.invalidArguments)
+        : executeQuery(call.name, call.arguments, dataSource);
+      const entry: TranscriptEntry = {
+        iteration: iterations,
+        toolCallId: call.id,
+        name: call.name,
+        arguments: call.arguments,
+        ...(outcome.success ? { result: outcome.result } : { error: outcome.body })
+      };
+      transcript.push(entry);
+
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(outcome.success ? { result: outcome.result } : outcome.body)
+      });
+    }
+
+    if (maxTotalTokens !== undefined && usage.inputTokens + usage.outputTokens >= maxTotalTokens) {
+      return finish('maxTotalTokens');
+    }
+  }
+
+  return finish('maxIterations');
+}
@@ -5,8 +5,14 @@ import {
   getMetrics,
   compareEntities,
   getTrend,
-  getTopEntities
+  getTopEntities,
+  getTopEntitiesSchema,
+  getAvailableTrends
 } from './queries';
+import { EntityNotFoundError, NoTrendDataError, TypeMismatchError, UndefinedMetricValueError, UnknownMetricError } from './errors';
+import { createInMemoryDataSource } from './data/inMemoryDataSource';
+import { mockAuthors } from './data/mockData';
+import { Author } from './types';
 
 describe('getEntity', () => {
   it('should retrieve an author by ID', () => {
@@ -30,38 +36,70 @@ describe('getEntity', () => {
     expect(result?.name).toBe('Nature');
   });
 
-  it('should return null for non-existent entity', () => {
-    const result = getEntity({ entityType: 'author', entityId: 'nonexistent' });
-    expect(result).toBeNull();
+  it('should throw for non-existent entity', () => {
+    expect(() => getEntity({ entityType: 'author', entityId: 'nonexistent' })).toThrow(EntityNotFoundError);
+  });
+
+  it('should suggest close identifiers and name matches', () => {
+    expect(() => getEntity({ entityType: 'author', entityId: 'auth_02' })).toThrow(
+      expect.objectContaining({ hint: "Did you mean 'auth_002' (Prof. James Anderson)?" })
+    );
+    expect(() => getEntity({ entityType: 'journal', entityId: 'Nature' })).toThrow(
+      expect.objectContaining({ suggestions: [{ id: 'jour_001', name: 'Nature', entityType: 'journal' }] })
+    );
+  });
+
+  it('should throw TypeMismatchError for an identifier of another type', () => {
+    expect(() => getEntity({ entityType: 'author', entityId: 'inst_001' })).toThrow(
+      new TypeMismatchError('inst_001', 'author', 'institution')
+    );
+    expect(() => getEntity({ entityType: 'author', entityId: 'inst_001' })).toThrow("'inst_001' is an institution, not an author");
   });
 });
 
 describe('searchEntities', () => {
   it('should find authors by name', () => {
     const results = searchEntities({ entityType: 'author', query: 'Chen' });
-    expect(results.length).toBeGreaterThan(0);
-    expect(results[0].name).toContain('Chen');
+    expect(results.items.length).toBeGreaterThan(0);
+    expect(results.items[0].name).toContain('Chen');
   });
 
   it('should find institutions by name', () => {
     const results = searchEntities({ entityType: 'institution', query: 'Technology' });
-    expect(results.length).toBeGreaterThan(0);
-    expect(results[0].name).toContain('Technology');
+    expect(results.items.length).toBeGreaterThan(0);
+    expect(results.items[0].name).toContain('Technology');
   });
 
   it('should be case-insensitive', () => {
     const results = searchEntities({ entityType: 'author', query: 'chen' });
-    expect(results.length).toBeGreaterThan(0);
+    expect(results.items.length).toBeGreaterThan(0);
   });
 
   it('should respect limit parameter', () => {
-    const results = searchEntities({ entityType: 'author', query: '', limit: 2 });
-    expect(results.length).toBeLessThanOrEqual(2);
+    const results = searchEntities({ entityType: 'institution', query: 'University', limit: 2 });
+    expect(results.items).toHaveLength(2);
+    expect(results.totalCount).toBe(3);
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(searchEntities({ entityType: 'author', query: '' }).items).toEqual([]);
   });
 
   it('should return empty array for no matches', () => {
     const results = searchEntities({ entityType: 'author', query: 'xyz123notfound' });
-    expect(results).toEqual([]);
+    expect(results).toEqual({ items: [], totalCount: 0, nextCursor: null });
+  });
+
+  it('should filter and sort search results', () => {
+    const results = searchEntities({ query: 'University', filter: { country: 'United Kingdom' }, sortBy: 'name' });
+    expect(results.items.map(hit => hit.id)).toEqual(['inst_005', 'inst_002']);
+    expect(results.totalCount).toBe(2);
+  });
+
+  it('should search every type when entityType is omitted', () => {
+    const results = searchEntities({ query: 'MIT' });
+    expect(results.items[0]).toMatchObject({ id: 'inst_001', entityType: 'institution', matchedName: 'mit' });
+    expect(results.items[0].score).toBeGreaterThan(0.5);
   });
 });
 
@@ -80,9 +118,62 @@ describe('getMetrics', () => {
     expect(metrics?.publications).toBe(12456);
   });
 
-  it('should return null for non-existent entity', () => {
-    const metrics = getMetrics({ entityType: 'author', entityId: 'nonexistent' });
-    expect(metrics).toBeNull();
+  it('should throw for non-existent entity', () => {
+    expect(() => getMetrics({ entityType: 'author', entityId: 'nonexistent' })).toThrow(EntityNotFoundError);
+  });
+
+  it('should return only the requested metrics', () => {
+    const metrics = getMetrics({
+      entityType: 'author',
+      entityId: 'auth_001',
+      metricNames: ['hIndex', 'outputsInTopCitationPercentiles.top1'],
+      annotate: false
+    });
+    expect(metrics).toEqual({ hIndex: 42, 'outputsInTopCitationPercentiles.top1': 12 });
+  });
+
+  it('should throw for requested metrics the entity does not have', () => {
+    expect(() => getMetrics({
+      entityType: 'journal',
+      entityId: 'jour_001',
+      metricNames: ['sjr', 'hIndex'],
+      annotate: false
+    })).toThrow("Unknown metric 'hIndex' for entity 'jour_001'");
+  });
+
+  it('should annotate values with unit, description and period', () => {
+    const metrics = getMetrics({
+      entityType: 'institution',
+      entityId: 'inst_002',
+      metricNames: ['collaborationRate'],
+      annotate: true
+    });
+    expect(metrics).toEqual({
+      collaborationRate: {
+        value: 0.72,
+        label: 'Collaboration Rate',
+        unit: 'proportion',
+        description: expect.any(String),
+        period: { start: 2019, end: 2023 }
+      }
+    });
+  });
+
+  it('should flatten nested metrics to dotted names', () => {
+    const metrics = getMetrics({ entityType: 'author', entityId: 'auth_001' });
+    expect(metrics?.['outputsInTopCitationPercentiles.top1']).toBe(12);
+    expect(metrics).not.toHaveProperty('outputsInTopCitationPercentiles');
+  });
+
+  it('should include derived metrics alongside stored ones', () => {
+    const metrics = getMetrics({ entityType: 'institution', entityId: 'inst_001' });
+    expect(metrics?.citationsPerPublication).toBeCloseTo(342891 / 12456);
+    expect(metrics?.corporateCollaborationOutput).toBeCloseTo(0.23 * 12456);
+
+    const annotated = getMetrics({ entityType: 'author', entityId: 'auth_001', metricNames: ['top10PercentShare'], annotate: true });
+    expect(annotated).toEqual({
+      top10PercentShare: expect.objectContaining({ value: 45 / 156, unit: 'proportion', label: 'Share of Outputs in Top 10% Citation Percentiles' })
+    });
   });
 });
 
@@ -116,26 +207,62 @@ describe('compareEntities', () => {
     expect(comparison?.percentDifference).toBeCloseTo(expectedPercent, 1);
   });
 
-  it('should return null for non-existent entities', () => {
-    const comparison = compareEntities({
+  it('should throw for non-existent entities', () => {
+    expect(() => compareEntities({
       entityType: 'author',
       entityIdA: 'nonexistent',
       entityIdB: 'auth_001',
       metric: 'citations'
+    })).toThrow(EntityNotFoundError);
+  });
+
+  it('should compare nested metrics', () => {
+    const comparison = compareEntities({
+      entityType: 'author',
+      entityIdA: 'auth_001',
+      entityIdB: 'auth_003',
+      metric: 'outputsInTopCitationPercentiles.top10'
     });
     
-    expect(comparison).toBeNull();
+    expect(comparison?.entityA.value).toBe(45);
+    expect(comparison?.entityB.value).toBe(23);
   });
 
-  it('should return null for non-existent metric', () => {
+  it('should compare derived metrics', () => {
     const comparison = compareEntities({
+      entityType: 'institution',
+      entityIdA: 'inst_004',
+      entityIdB: 'inst_002',
+      metric: 'citationsPerPublication'
+    });
+    
+    expect(comparison?.entityA.value).toBeCloseTo(389012 / 11234);
+    expect(comparison?.entityB.value).toBeCloseTo(412567 / 15234);
+    expect(comparison?.difference).toBeGreaterThan(0);
+  });
+
+  it('should throw for non-existent metric', () => {
+    expect(() => compareEntities({
       entityType: 'author',
       entityIdA: 'auth_001',
       entityIdB: 'auth_002',
       metric: 'nonexistentMetric'
+    })).toThrow(UnknownMetricError);
+  });
+
+  it('should throw when a derived metric divides by zero', () => {
+    const unpublished = createInMemoryDataSource({
+      authors: [mockAuthors[0], { ...mockAuthors[1], metrics: { ...mockAuthors[1].metrics, publications: 0 } }],
+      institutions: [],
+      journals: [],
+      trends: {}
     });
-    
-    expect(comparison).toBeNull();
+    expect(() => compareEntities({
+      entityType: 'author',
+      entityIdA: 'auth_001',
+      entityIdB: 'auth_002',
+      metric: 'citationsPerPublication'
+    }, unpublished)).toThrow(new UndefinedMetricValueError('citationsPerPublication', 'auth_002', ['citations', 'publications']));
   });
 });
 
@@ -171,33 +298,182 @@ describe('getTrend', () => {
     expect(trend!.every(point => point.year >= 2020 && point.year <= 2022)).toBe(true);
   });
 
-  it('should return null for non-existent entity', () => {
-    const trend = getTrend({ entityId: 'nonexistent', metric: 'publications' });
-    expect(trend).toBeNull();
+  it('should throw for non-existent entity', () => {
+    expect(() => getTrend({ entityId: 'nonexistent', metric: 'publications' })).toThrow(EntityNotFoundError);
+  });
+
+  it('should throw NoTrendDataError for an entity without any series', () => {
+    expect(() => getTrend({ entityId: 'inst_002', metric: 'publications' })).toThrow(NoTrendDataError);
+  });
+
+  it('should return the series for the requested metric', () => {
+    const publications = getTrend({ entityId: 'auth_001', metric: 'publications' });
+    const citations = getTrend({ entityId: 'auth_001', metric: 'citations' });
+    expect(publications![4]).toEqual({ year: 2023, value: 19 });
+    expect(citations![4]).toEqual({ year: 2023, value: 1154 });
+  });
+
+  it('should return series for nested metrics', () => {
+    const trend = getTrend({ entityId: 'auth_001', metric: 'outputsInTopCitationPercentiles.top1', startYear: 2022 });
+    expect(trend).toEqual([{ year: 2022, value: 4 }, { year: 2023, value: 3 }]);
+  });
+
+  it('should compute series for derived metrics from their inputs', () => {
+    const trend = getTrend({ entityId: 'auth_001', metric: 'citationsPerPublication', startYear: 2023 });
+    const citations = getTrend({ entityId: 'auth_001', metric: 'citations', startYear: 2023 });
+    expect(trend).toEqual([{ year: 2023, value: citations![0].value / 19 }]);
+  });
+
+  it('should throw for a metric without a series, listing available metrics', () => {
+    expect(() => getTrend({ entityId: 'jour_001', metric: 'hIndex' })).toThrow(UnknownMetricError);
+    try {
+      getTrend({ entityId: 'jour_001', metric: 'hIndex' });
+    } catch (error) {
+      expect((error as UnknownMetricError).availableMetrics).toEqual(['publications', 'citesPerDoc', 'sjr']);
+    }
+  });
+});
+
+describe('getAvailableTrends', () => {
+  it('should list metrics and years with trend data', () => {
+    const available = getAvailableTrends({ entityId: 'inst_001' });
+    expect(available?.map(a => a.metric)).toEqual(['publications', 'citations', 'fieldWeightedCitationImpact', 'citationsPerPublication']);
+    expect(available![0]).toEqual({
+      metric: 'publications',
+      startYear: 2019,
+      endYear: 2023,
+      years: [2019, 2020, 2021, 2022, 2023]
+    });
+  });
+
+  it('should throw for an entity without trends', () => {
+    expect(() => getAvailableTrends({ entityId: 'nonexistent' })).toThrow(EntityNotFoundError);
   });
 });
 
 describe('getTopEntities', () => {
   it('should return top authors by citations', () => {
-    const top = getTopEntities({ entityType: 'author', metric: 'citations', limit: 2 });
+    const top = getTopEntities({ entityType: 'author', metric: 'citations', limit: 2 }).items;
     expect(top.length).toBe(2);
     // Should be sorted descending
     expect(top[0].metrics.citations).toBeGreaterThanOrEqual(top[1].metrics.citations);
   });
 
   it('should return top institutions by publications', () => {
-    const top = getTopEntities({ entityType: 'institution', metric: 'publications', limit: 3 });
+    const top = getTopEntities({ entityType: 'institution', metric: 'publications', limit: 3 }).items;
     expect(top.length).toBe(3);
     expect(top[0].metrics.publications).toBeGreaterThanOrEqual(top[1].metrics.publications);
   });
 
   it('should respect limit parameter', () => {
-    const top = getTopEntities({ entityType: 'author', metric: 'hIndex', limit: 1 });
+    const top = getTopEntities({ entityType: 'author', metric: 'hIndex', limit: 1 }).items;
     expect(top.length).toBe(1);
   });
 
+  it('should rank by nested metrics', () => {
+    const top = getTopEntities({ entityType: 'author', metric: 'outputsInTopCitationPercentiles.top1', limit: 3 }).items;
+    expect(top.map(a => a.id)).toEqual(['auth_002', 'auth_001', 'auth_003']);
+  });
+
+  it('should rank by derived metrics', () => {
+    const top = getTopEntities({ entityType: 'institution', metric: 'citationsPerPublication', limit: 3 }).items;
+    expect(top.map(i => i.id)).toEqual(['inst_004', 'inst_001', 'inst_005']);
+    
+    const leastUncited = getTopEntities({ entityType: 'journal', metric: 'percentUncited', limit: 1 }).items;
+    expect(leastUncited[0].id).toBe('jour_003');
+  });
+
   it('should default to limit 10', () => {
-    const top = getTopEntities({ entityType: 'author', metric: 'citations' });
+    const top = getTopEntities({ entityType: 'author', metric: 'citations' }).items;
     expect(top.length).toBeLessThanOrEqual(10);
   });
+
+  it('should filter, sort and page through the ranking', () => {
+    const params = {
+      entityType: 'institution' as const,
+      metric: 'collaborationRate' as const,
+      filter: { country: 'united kingdom', metrics: [{ metric: 'fieldWeightedCitationImpact' as const, operator: '>' as const, value: 2 }] },
+      sortOrder: 'desc' as const,
+      limit: 1
+    };
+    const first = getTopEntities(params);
+    expect(first.items.map(i => i.id)).toEqual(['inst_005']);
+    expect(first.totalCount).toBe(2);
+
+    const second = getTopEntities({ ...params, cursor: first.nextCursor! });
+    expect(second).toEqual({ items: [expect.objectContaining({ id: 'inst_002' })], totalCount: 2, nextCursor: null });
+  });
+
+  it('should rank lowest first in ascending order', () => {
+    const bottom = getTopEntities({ entityType: 'author', metric: 'citations', sortOrder: 'asc', limit: 1 });
+    expect(bottom.items[0].id).toBe('auth_003');
+    expect(bottom.totalCount).toBe(3);
+  });
+
+  it('should page through the unfiltered ranking', () => {
+    const first = getTopEntities({ entityType: 'institution', metric: 'publications', limit: 2 });
+    const second = getTopEntities({ entityType: 'institution', metric: 'publications', limit: 2, cursor: first.nextCursor! });
+    const all = getTopEntities({ entityType: 'institution', metric: 'publications', limit: 10 });
+    expect([...first.items, ...second.items]).toEqual(all.items.slice(0, 4));
+    expect(second.totalCount).toBe(5);
+  });
+
+  it('should rank entities without the metric last, with or without a filter', () => {
+    const { hIndex, ...partialMetrics } = mockAuthors[0].metrics;
+    const fixture = createInMemoryDataSource({
+      authors: [
+        { ...mockAuthors[0], metrics: partialMetrics as Author['metrics'] },
+        { ...mockAuthors[1], metrics: { ...mockAuthors[1].metrics, hIndex: 0 } }
+      ],
+      institutions: [],
+      journals: [],
+      trends: {}
+    });
+    const unfiltered = getTopEntities({ entityType: 'author', metric: 'hIndex' }, fixture);
+    const filtered = getTopEntities({ entityType: 'author', metric: 'hIndex', filter: { metrics: [{ metric: 'citations', operator: '>=', value: 0 }] } }, fixture);
+    expect(unfiltered.items.map(a => a.id)).toEqual(['auth_002', 'auth_001']);
+    expect(filtered.items.map(a => a.id)).toEqual(['auth_002', 'auth_001']);
+  });
+
+  it('should reject cursors from another query', () => {
+    const { nextCursor } = getTopEntities({ entityType: 'author', metric: 'citations', limit: 1 });
+    expect(() => getTopEntities({ entityType: 'author', metric: 'hIndex', limit: 1, cursor: nextCursor! }))
+      .toThrow('The cursor belongs to a query with different parameters');
+  });
+
+  it('should reject filters for another entity type', () => {
+    const result = getTopEntitiesSchema.safeParse({ entityType: 'journal', metric: 'sjr', filter: { country: 'Switzerland', metrics: [{ metric: 'hIndex', operator: '>', value: 1 }] } });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.path)).toEqual([['filter', 'country'], ['filter', 'metrics', 0, 'metric']]);
+  });
+});
+
+describe('custom data source', () => {
+  const fixture = createInMemoryDataSource({
+    authors: [
+      { ...mockAuthors[0], id: 'fx_001', name: 'Fixture Author' }
+    ],
+    institutions: [],
+    journals: [],
+    trends: {
+      fx_001: { publications: [{ year: 2024, value: 7 }] }
+    }
+  });
+
+  it('should read entities from the injected data source', () => {
+    const result = getEntity({ entityType: 'author', entityId: 'fx_001' }, fixture);
+    expect(result?.name).toBe('Fixture Author');
+    expect(() => getEntity({ entityType: 'author', entityId: 'auth_001' }, fixture)).toThrow(EntityNotFoundError);
+  });
+
+  it('should search and rank within the injected data source', () => {
+    expect(searchEntities({ entityType: 'author', query: 'fixture', limit: 10 }, fixture).items).toHaveLength(1);
+    expect(getTopEntities({ entityType: 'author', metric: 'citations', limit: 10 }, fixture).items).toHaveLength(1);
+    expect(getTopEntities({ entityType: 'institution', metric: 'citations', limit: 10 }, fixture).items).toEqual([]);
+  });
+
+  it('should read trends from the injected data source', () => {
+    const trend = getTrend({ entityId: 'fx_001', metric: 'publications' }, fixture);
+    expect(trend).toEqual([{ year: 2024, value: 7 }]);
+  });
 });
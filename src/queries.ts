@@ -1,6 +1,53 @@
 import { z } from 'zod';
-import { mockAuthors, mockInstitutions, mockJournals, mockTrends } from './data/mockData';
-import { Author, Institution, Journal, TrendPoint, Comparison, EntityType } from './types';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { requireEntity } from './entityLookup';
+import {
+  compareMultipleEntities,
+  compareMultipleEntitiesSchema,
+  getBenchmark,
+  getBenchmarkSchema
+} from './benchmarking';
+import {
+  getAuthorJournals,
+  getAuthorJournalsSchema,
+  getInstitutionAuthors,
+  getInstitutionAuthorsSchema,
+  getRelatedEntities,
+  getRelatedEntitiesSchema
+} from './relationships';
+import { getEntityCollaborationNetwork, getEntityCollaborationNetworkSchema } from './collaboration';
+import { getTrendInsights, getTrendInsightsSchema } from './insights';
+import { runQuery, runQuerySchema } from './queryLanguage';
+import { aggregateMetric, aggregateMetricSchema } from './aggregation';
+import {
+  AnnotatedMetric,
+  annotateMetric,
+  checkMetricsForEntityType,
+  describeMetricsByEntityType,
+  flattenMetrics,
+  getMetricTrend,
+  getMetricValue,
+  isDerivedMetric,
+  metricNameSchema,
+  requireMetricTrend,
+  requireMetricValue,
+  requireTrendMetricNames
+} from './metrics';
+import {
+  checkFilterForEntityType,
+  decodeCursor,
+  entityFilterSchema,
+  isEmptyFilter,
+  matchesFilter,
+  pageParamsSchema,
+  paginate,
+  sortByKey,
+  sortOrderSchema,
+  toPage
+} from './listing';
+import { findEntities } from './search';
+import { Author, Institution, Journal, TrendPoint, TrendAvailability, Comparison, SearchHit, Page, EntityType } from './types';
 
 /**
  * Get entity by ID
@@ -10,47 +57,49 @@ export const getEntitySchema = z.object({
   entityId: z.string().describe('Unique identifier for the entity')
 });
 
-export function getEntity(params: z.infer<typeof getEntitySchema>): Author | Institution | Journal | null {
+export function getEntity(
+  params: z.infer<typeof getEntitySchema>,
+  dataSource: DataSource = mockDataSource
+): Author | Institution | Journal {
   const { entityType, entityId } = params;
   
-  switch (entityType) {
-    case 'author':
-      return mockAuthors.find(a => a.id === entityId) || null;
-    case 'institution':
-      return mockInstitutions.find(i => i.id === entityId) || null;
-    case 'journal':
-      return mockJournals.find(j => j.id === entityId) || null;
-  }
+  return requireEntity(dataSource, entityType, entityId);
 }
 
 /**
  * Search entities by name
  */
 export const searchEntitiesSchema = z.object({
-  entityType: z.enum(['author', 'institution', 'journal']).describe('Type of entity to search'),
-  query: z.string().describe('Search query string'),
-  limit: z.number().optional().default(10).describe('Maximum number of results')
+  entityType: z.enum(['author', 'institution', 'journal']).optional().describe('Type of entity to search (all types if omitted)'),
+  query: z.string().describe('Name, part of a name or abbreviation; accents, word order and small typos are tolerated'),
+  minScore: z.number().min(0).max(1).optional().default(0.5).describe('Drop results less relevant than this (0 to 1)'),
+  filter: entityFilterSchema.optional().describe('Only return entities meeting these conditions'),
+  sortBy: z.union([z.enum(['relevance', 'name']), metricNameSchema]).optional().default('relevance')
+    .describe('Order by relevance (default), name or a metric; entities without the metric come last'),
+  sortOrder: sortOrderSchema.optional().describe('Defaults to asc for name, desc otherwise'),
+  ...pageParamsSchema.shape
+}).superRefine(checkFilterForEntityType('entityType')).superRefine((params, ctx) => {
+  if (params.entityType && params.sortBy !== 'relevance' && params.sortBy !== 'name') {
+    checkMetricsForEntityType('sortBy')({ entityType: params.entityType, sortBy: params.sortBy }, ctx);
+  }
 });
 
-export function searchEntities(params: z.infer<typeof searchEntitiesSchema>): (Author | Institution | Journal)[] {
-  const { entityType, query, limit } = params;
-  const queryLower = query.toLowerCase();
-  
-  let results: (Author | Institution | Journal)[];
-  
-  switch (entityType) {
-    case 'author':
-      results = mockAuthors.filter(a => a.name.toLowerCase().includes(queryLower));
-      break;
-    case 'institution':
-      results = mockInstitutions.filter(i => i.name.toLowerCase().includes(queryLower));
-      break;
-    case 'journal':
-      results = mockJournals.filter(j => j.name.toLowerCase().includes(queryLower));
-      break;
-  }
+/**
+ * Results are ranked by relevance, best first, unless sorted otherwise
+ */
+export function searchEntities(
+  params: z.infer<typeof searchEntitiesSchema>,
+  dataSource: DataSource = mockDataSource
+): Page<SearchHit> {
+  const { entityType, query, minScore, filter, sortBy = 'relevance', sortOrder = sortBy === 'name' ? 'asc' : 'desc' } = params;
   
-  return results.slice(0, limit);
+  const hits: SearchHit[] = findEntities(dataSource, query, { entityTypes: entityType && [entityType], limit: Infinity, minScore })
+    .filter(match => matchesFilter(dataSource, match.entity, match.entityType, filter))
+    .map(({ entity, entityType, score, matchedName }) => ({ ...entity, entityType, score, matchedName }));
+  
+  const sortKey = (hit: SearchHit) =>
+    sortBy === 'relevance' ? hit.score : sortBy === 'name' ? hit.name : getMetricValue(hit, sortBy, hit.entityType as EntityType);
+  return paginate(sortByKey(hits, sortKey, sortOrder), params);
 }
 
 /**
@@ -59,16 +108,28 @@ export function searchEntities(params: z.infer<typeof searchEntitiesSchema>): (A
 export const getMetricsSchema = z.object({
   entityType: z.enum(['author', 'institution', 'journal']).describe('Type of entity'),
   entityId: z.string().describe('Entity identifier'),
-  metricNames: z.array(z.string()).optional().describe('Specific metrics to retrieve (all if not specified)')
-});
+  metricNames: z.array(metricNameSchema).optional().describe('Specific metrics to retrieve (all if not specified)'),
+  annotate: z.boolean().optional().default(false).describe('Include label, unit, description and covered years with each value')
+}).superRefine(checkMetricsForEntityType('metricNames'));
 
-export function getMetrics(params: z.infer<typeof getMetricsSchema>): Record<string, number> | null {
-  const { entityType, entityId } = params;
-  const entity = getEntity({ entityType, entityId });
+export function getMetrics(
+  params: z.infer<typeof getMetricsSchema>,
+  dataSource: DataSource = mockDataSource
+): Record<string, number> | Record<string, AnnotatedMetric> {
+  const { entityType, entityId, metricNames, annotate } = params;
+  const entity = getEntity({ entityType, entityId }, dataSource);
   
-  if (!entity) return null;
+  // Nested metrics are flattened to dotted keys, e.g. "outputsInTopCitationPercentiles.top1",
+  // followed by the derived metrics that can be computed from them
+  const metrics = flattenMetrics(entity, entityType);
+  const names = metricNames ?? Object.keys(metrics);
+  const values = names.map(name => [name, metrics[name] ?? requireMetricValue(entity, entityType, name)] as const);
+  
+  if (annotate) {
+    return Object.fromEntries(values.map(([name, value]) => [name, annotateMetric(entity, entityType, name, value)]));
+  }
   
-  return entity.metrics as Record<string, number>;
+  return Object.fromEntries(values);
 }
 
 /**
@@ -78,24 +139,20 @@ export const compareEntitiesSchema = z.object({
   entityType: z.enum(['author', 'institution', 'journal']).describe('Type of entities to compare'),
   entityIdA: z.string().describe('First entity identifier'),
   entityIdB: z.string().describe('Second entity identifier'),
-  metric: z.string().describe('Metric to compare (e.g., "publications", "citations", "hIndex")')
-});
+  metric: metricNameSchema.describe(`Metric to compare, by entity type (${describeMetricsByEntityType()})`)
+}).superRefine(checkMetricsForEntityType('metric'));
 
-export function compareEntities(params: z.infer<typeof compareEntitiesSchema>): Comparison | null {
+export function compareEntities(
+  params: z.infer<typeof compareEntitiesSchema>,
+  dataSource: DataSource = mockDataSource
+): Comparison {
   const { entityType, entityIdA, entityIdB, metric } = params;
   
-  const entityA = getEntity({ entityType, entityId: entityIdA });
-  const entityB = getEntity({ entityType, entityId: entityIdB });
-  
-  if (!entityA || !entityB) return null;
-  
-  const metricsA = entityA.metrics as any;
-  const metricsB = entityB.metrics as any;
+  const entityA = getEntity({ entityType, entityId: entityIdA }, dataSource);
+  const entityB = getEntity({ entityType, entityId: entityIdB }, dataSource);
   
-  const valueA = metricsA[metric];
-  const valueB = metricsB[metric];
-  
-  if (valueA === undefined || valueB === undefined) return null;
+  const valueA = requireMetricValue(entityA, entityType, metric);
+  const valueB = requireMetricValue(entityB, entityType, metric);
   
   const difference = valueA - valueB;
   const percentDifference = valueB !== 0 ? ((valueA - valueB) / valueB) * 100 : 0;
@@ -121,16 +178,18 @@ export function compareEntities(params: z.infer<typeof compareEntitiesSchema>):
  */
 export const getTrendSchema = z.object({
   entityId: z.string().describe('Entity identifier'),
-  metric: z.string().describe('Metric to track over time'),
+  metric: metricNameSchema.describe('Metric to track over time (see getAvailableTrends for the metrics available per entity)'),
   startYear: z.number().optional().describe('Start year (defaults to earliest available)'),
   endYear: z.number().optional().describe('End year (defaults to latest available)')
 });
 
-export function getTrend(params: z.infer<typeof getTrendSchema>): TrendPoint[] | null {
-  const { entityId, startYear, endYear } = params;
+export function getTrend(
+  params: z.infer<typeof getTrendSchema>,
+  dataSource: DataSource = mockDataSource
+): TrendPoint[] {
+  const { entityId, metric, startYear, endYear } = params;
   
-  const trendData = mockTrends[entityId];
-  if (!trendData) return null;
+  const trendData = requireMetricTrend(dataSource, entityId, metric);
   
   let filtered = trendData;
   
@@ -145,42 +204,59 @@ export function getTrend(params: z.infer<typeof getTrendSchema>): TrendPoint[] |
   return filtered;
 }
 
+/**
+ * List which metrics and years have trend data for an entity
+ */
+export const getAvailableTrendsSchema = z.object({
+  entityId: z.string().describe('Entity identifier')
+});
+
+export function getAvailableTrends(
+  params: z.infer<typeof getAvailableTrendsSchema>,
+  dataSource: DataSource = mockDataSource
+): TrendAvailability[] {
+  const { entityId } = params;
+  
+  const metrics = requireTrendMetricNames(dataSource, entityId);
+  
+  return metrics.map(metric => {
+    const years = (getMetricTrend(dataSource, entityId, metric) || []).map(point => point.year);
+    return {
+      metric,
+      startYear: Math.min(...years),
+      endYear: Math.max(...years),
+      years
+    };
+  });
+}
+
 /**
  * Get top entities by a specific metric
  */
 export const getTopEntitiesSchema = z.object({
   entityType: z.enum(['author', 'institution', 'journal']).describe('Type of entity'),
-  metric: z.string().describe('Metric to rank by'),
-  limit: z.number().optional().default(10).describe('Number of top entities to return')
-});
+  metric: metricNameSchema.describe(`Metric to rank by, by entity type (${describeMetricsByEntityType()})`),
+  filter: entityFilterSchema.optional().describe('Only rank entities meeting these conditions'),
+  sortOrder: sortOrderSchema.optional().default('desc').describe('desc for the highest values first (default), asc for the lowest'),
+  ...pageParamsSchema.shape
+}).superRefine(checkMetricsForEntityType('metric')).superRefine(checkFilterForEntityType('entityType'));
 
-export function getTopEntities(params: z.infer<typeof getTopEntitiesSchema>): (Author | Institution | Journal)[] {
-  const { entityType, metric, limit } = params;
-  
-  let entities: (Author | Institution | Journal)[];
-  
-  switch (entityType) {
-    case 'author':
-      entities = [...mockAuthors];
-      break;
-    case 'institution':
-      entities = [...mockInstitutions];
-      break;
-    case 'journal':
-      entities = [...mockJournals];
-      break;
-  }
+export function getTopEntities(
+  params: z.infer<typeof getTopEntitiesSchema>,
+  dataSource: DataSource = mockDataSource
+): Page<Author | Institution | Journal> {
+  const { entityType, metric, filter, sortOrder = 'desc', limit = Infinity } = params;
   
-  // Sort by metric (descending)
-  entities.sort((a, b) => {
-    const metricsA = a.metrics as any;
-    const metricsB = b.metrics as any;
-    const valueA = metricsA[metric] || 0;
-    const valueB = metricsB[metric] || 0;
-    return valueB - valueA;
-  });
+  // Unfiltered rankings by a stored metric, highest first, run in the data source
+  if (isEmptyFilter(filter) && sortOrder === 'desc' && !isDerivedMetric(entityType, metric)) {
+    const offset = decodeCursor(params);
+    const ranked = dataSource.rankEntities(entityType, metric, offset + limit).slice(offset);
+    return toPage(ranked, offset, dataSource.countEntities(entityType), params);
+  }
   
-  return entities.slice(0, limit);
+  // Data sources neither filter nor rank by derived metrics, so the rest is done here
+  const matching = dataSource.listEntities(entityType).filter(entity => matchesFilter(dataSource, entity, entityType, filter));
+  return paginate(sortByKey(matching, entity => getMetricValue(entity, metric, entityType), sortOrder), params);
 }
 
 /**
@@ -200,21 +276,73 @@ export const queryFunctions = {
   getMetrics: {
     function: getMetrics,
     schema: getMetricsSchema,
-    description: 'Get all metrics for a specific entity'
+    description: 'Get metrics for a specific entity (all, or only the named ones), with nested metrics flattened to dotted names'
   },
   compareEntities: {
     function: compareEntities,
     schema: compareEntitiesSchema,
     description: 'Compare two entities on a specific metric and get the difference'
   },
+  compareMultipleEntities: {
+    function: compareMultipleEntities,
+    schema: compareMultipleEntitiesSchema,
+    description: 'Compare several entities across several metrics in one call, with ranks and differences from the group mean and median'
+  },
+  getBenchmark: {
+    function: getBenchmark,
+    schema: getBenchmarkSchema,
+    description: 'Benchmark an entity against a named or ad-hoc peer group, with its rank, percentile and distance from the peer average per metric'
+  },
   getTrend: {
     function: getTrend,
     schema: getTrendSchema,
     description: 'Get trend data for an entity metric over a time period'
   },
+  getAvailableTrends: {
+    function: getAvailableTrends,
+    schema: getAvailableTrendsSchema,
+    description: 'List the metrics and years that have trend data for an entity'
+  },
+  getTrendInsights: {
+    function: getTrendInsights,
+    schema: getTrendInsightsSchema,
+    description: 'Analyze an entity metric over time: compound annual growth, year-over-year changes, trend slope, peak and trough years, and anomalous years, with citable findings'
+  },
   getTopEntities: {
     function: getTopEntities,
     schema: getTopEntitiesSchema,
     description: 'Get the top-performing entities ranked by a specific metric'
+  },
+  getRelatedEntities: {
+    function: getRelatedEntities,
+    schema: getRelatedEntitiesSchema,
+    description: 'Traverse from an entity to related entities of another type (affiliations, publication venues)'
+  },
+  getInstitutionAuthors: {
+    function: getInstitutionAuthors,
+    schema: getInstitutionAuthorsSchema,
+    description: 'List the authors affiliated with an institution, optionally in a given year'
+  },
+  getAuthorJournals: {
+    function: getAuthorJournals,
+    schema: getAuthorJournalsSchema,
+    description: 'List the journals where an author publishes most'
+  },
+  getEntityCollaborationNetwork: {
+    function: getEntityCollaborationNetwork,
+    schema: getEntityCollaborationNetworkSchema,
+    description: 'Get the co-authorship network around an author or institution as nodes and weighted edges'
+  },
+  aggregateMetric: {
+    function: aggregateMetric,
+    schema: aggregateMetricSchema,
+    description: 'Summarize a metric across entities as a table of count, sum, mean, median, min, max and percentiles, ' +
+      'overall or grouped by country (institutions), publisher (journals) or affiliation (authors)'
+  },
+  runQuery: {
+    function: runQuery,
+    schema: runQuerySchema,
+    description: 'Answer a compound question in one call with a declarative query: select entities of one type, filter them, ' +
+      'join related entities through a relationship, group and aggregate (count, sum, mean, median, min, max), then sort and page the rows'
   }
 };
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { runQuery, runQuerySchema } from './queryLanguage';
+import { EntityNotFoundError } from './errors';
+
+const run = (query: unknown) => runQuery(runQuerySchema.parse(query));
+
+describe('runQuery', () => {
+  it('should select, filter and sort one entity type', () => {
+    const result = run({
+      from: 'institution',
+      where: { country: 'United Kingdom', metrics: [{ metric: 'fwci', operator: '>', value: 2 }] },
+      select: ['name', 'collaborationRate', 'fwci'],
+      orderBy: [{ field: 'collaborationRate', direction: 'desc' }]
+    });
+    expect(result.columns).toEqual(['name', 'collaborationRate', 'fieldWeightedCitationImpact']);
+    expect(result.items).toEqual([
+      { name: 'University of Cambridge', collaborationRate: 0.74, fieldWeightedCitationImpact: 2.78 },
+      { name: 'University of Oxford', collaborationRate: 0.72, fieldWeightedCitationImpact: 3.12 }
+    ]);
+    expect(result.plan).toEqual([
+      'Scan all institutions',
+      'Keep institutions where country is "United Kingdom", fieldWeightedCitationImpact > 2',
+      'Sort by collaborationRate desc'
+    ]);
+  });
+
+  it('should join related entities with the relationship fields', () => {
+    const result = run({
+      from: 'author',
+      where: { ids: ['auth_002'] },
+      join: { relatedType: 'journal', as: 'venue' },
+      select: ['name', 'venue.name', 'venue.sharedPublications']
+    });
+    expect(result.items).toEqual([
+      { name: 'Prof. James Anderson', 'venue.name': 'Science', 'venue.sharedPublications': 11 },
+      { name: 'Prof. James Anderson', 'venue.name': 'Nature', 'venue.sharedPublications': 7 }
+    ]);
+    expect(result.plan[0]).toBe('Look up 1 author by id');
+  });
+
+  it('should group and aggregate joined rows', () => {
+    const result = run({
+      from: 'institution',
+      join: { relatedType: 'author', year: 2020 },
+      groupBy: ['country'],
+      aggregate: [{ function: 'count' }, { function: 'max', field: 'author.hIndex', as: 'topHIndex' }],
+      orderBy: [{ field: 'topHIndex', direction: 'desc' }]
+    });
+    expect(result.columns).toEqual(['country', 'count', 'topHIndex']);
+    expect(result.items).toEqual([
+      { country: 'United States', count: 2, topHIndex: 58 },
+      { country: 'United Kingdom', count: 1, topHIndex: 31 }
+    ]);
+  });
+
+  it('should aggregate every row without groupBy', () => {
+    const result = run({ from: 'journal', aggregate: [{ function: 'mean', field: 'sjr' }, { function: 'min', field: 'percentUncited' }] });
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]['mean(sjr)']).toBeCloseTo((14.23 + 13.45 + 12.89) / 3);
+    expect(result.columns).toEqual(['mean(sjr)', 'min(percentUncited)']);
+  });
+
+  it('should return one row for an aggregate without groupBy over no rows', () => {
+    const result = run({
+      from: 'journal',
+      where: { publisher: 'Wiley' },
+      aggregate: [{ function: 'count' }, { function: 'count', field: 'sjr', as: 'rated' }, { function: 'mean', field: 'sjr' }]
+    });
+    expect(result.items).toEqual([{ count: 0, rated: 0, 'mean(sjr)': null }]);
+    expect(result.totalCount).toBe(1);
+  });
+
+  it('should page through rows with a cursor', () => {
+    const query = { from: 'author', join: { relatedType: 'journal' }, orderBy: [{ field: 'journal.sharedPublications', direction: 'desc' }], limit: 5 };
+    const first = run(query);
+    const second = run({ ...query, cursor: first.nextCursor });
+    expect(first.totalCount).toBe(7);
+    expect(second.items).toHaveLength(2);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should throw for unknown ids', () => {
+    expect(() => run({ from: 'author', where: { ids: ['auth_404'] } })).toThrow(EntityNotFoundError);
+  });
+});
+
+describe('runQuerySchema', () => {
+  it.each([
+    [{ from: 'author', select: ['country'] }, ['select', 0], /Unknown field 'country'/],
+    [{ from: 'author', join: { relatedType: 'author' } }, ['join', 'relatedType'], /No relationship links authors to authors/],
+    [{ from: 'author', groupBy: ['affiliation'] }, ['groupBy'], /needs at least one aggregate/],
+    [{ from: 'author', aggregate: [{ function: 'mean', field: 'name' }] }, ['aggregate', 0, 'field'], /not numeric/],
+    [{ from: 'author', aggregate: [{ function: 'sum' }] }, ['aggregate', 0, 'field'], /sum needs a field/],
+    [{ from: 'author', aggregate: [{ function: 'count' }], orderBy: [{ field: 'hIndex' }] }, ['orderBy', 0, 'field'], /result columns: count/],
+    [{ from: 'journal', where: { affiliation: 'MIT' } }, ['where', 'affiliation'], /only filters authors/]
+  ])('should reject %j', (query, path, message) => {
+    const result = runQuerySchema.safeParse(query);
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toContainEqual(expect.objectContaining({ path, message: expect.stringMatching(message) }));
+  });
+});
@@ -0,0 +1,309 @@
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { requireEntity } from './entityLookup';
+import {
+  checkFilter,
+  entityAttributes,
+  EntityFilter,
+  entityFilterSchema,
+  isEmptyFilter,
+  matchesFilter,
+  pageParamsSchema,
+  paginate,
+  sortByKey,
+  sortOrderSchema
+} from './listing';
+import { getMetricValue, resolveMetric } from './metrics';
+import { findRelated, relationshipBetween } from './relationships';
+import { findEntities } from './search';
+import { summaryStatisticNames, summaryStatistics } from './statistics';
+import { Entity, EntityType, QueryCell, QueryTable, Relationship } from './types';
+
+const entityTypeSchema = z.enum(['author', 'institution', 'journal']);
+
+/**
+ * Fields of the relationship a join follows, addressed through the join's alias
+ */
+const relationshipFields: Record<string, (relationship: Relationship) => number | undefined> = {
+  startYear: r => r.startYear,
+  endYear: r => r.endYear,
+  sharedPublications: r => r.publications
+};
+
+const fieldsDescription =
+  'id, name, affiliation (authors), country (institutions), publisher (journals) or any metric of the entity type (aliases allowed); ' +
+  'with a join, the same fields of the related entity as "<as>.<field>", plus "<as>.startYear", "<as>.endYear" and "<as>.sharedPublications" ' +
+  'from the relationship';
+
+/**
+ * Clauses of a declarative query, checked against each other by runQuerySchema
+ */
+const queryClausesSchema = z.object({
+  from: entityTypeSchema.describe('Entity type to query'),
+  where: entityFilterSchema.extend({
+    ids: z.array(z.string()).optional().describe('Only these entities'),
+    name: z.string().optional().describe('Only entities whose name matches, as in searchEntities')
+  }).optional().describe('Conditions on the entities queried'),
+  join: z.object({
+    relatedType: entityTypeSchema.describe(
+      'Type of related entities: author <-> institution (affiliations), author <-> journal and institution <-> journal (publication venues)'
+    ),
+    as: z.string().regex(/^[A-Za-z][A-Za-z0-9]*$/).optional().describe('Prefix for the related fields (defaults to relatedType)'),
+    year: z.number().optional().describe('Only relationships active in this year'),
+    where: entityFilterSchema.optional().describe('Conditions on the related entities')
+  }).optional().describe('Pair each entity with its related entities of another type, one row per pair; entities without any drop out'),
+  select: z.array(z.string()).optional().describe(`Columns to return, from ${fieldsDescription}. Defaults to ids and names`),
+  groupBy: z.array(z.string()).optional().describe('Fields to group rows by before aggregating (one group of all rows if omitted)'),
+  aggregate: z.array(z.object({
+    function: z.enum(summaryStatisticNames),
+    field: z.string().optional().describe('Numeric field to aggregate; count without a field counts rows'),
+    as: z.string().optional().describe('Column name (defaults to e.g. "mean(hIndex)")')
+  })).optional().describe('Summaries computed per group; replaces select'),
+  orderBy: z.array(z.object({
+    field: z.string().describe('A field, or with aggregate a groupBy field or aggregate column'),
+    direction: sortOrderSchema.optional().default('asc')
+  })).optional().describe('Sort keys, most significant first; rows without a value come last'),
+  ...pageParamsSchema.shape
+});
+
+export type RunQueryParams = z.infer<typeof queryClausesSchema>;
+
+type AggregateSpec = NonNullable<RunQueryParams['aggregate']>[number];
+
+/**
+ * An entity, and for joins one entity related to it
+ */
+interface JoinedRow {
+  entity: Entity;
+  related?: { entity: Entity; relationship: Relationship };
+}
+
+/**
+ * A field reference resolved to its column name (canonical metric names) and how to read it
+ */
+interface ResolvedField {
+  column: string;
+  numeric: boolean;
+  read(row: JoinedRow): QueryCell | undefined;
+}
+
+function resolveEntityField(entityType: EntityType, name: string): { column: string; numeric: boolean; read(entity: Entity): QueryCell | undefined } | null {
+  if (name === 'id' || name === 'name' || name === entityAttributes[entityType]) {
+    return { column: name, numeric: false, read: entity => (entity as Record<string, unknown>)[name] as string | undefined };
+  }
+  const metric = resolveMetric(entityType, name);
+  return metric && { column: metric.name, numeric: true, read: entity => getMetricValue(entity, metric.name, entityType) };
+}
+
+/**
+ * Resolve a field reference against the queried type and, for "<as>." prefixes, the joined type
+ */
+function resolveField(params: Pick<RunQueryParams, 'from' | 'join'>, field: string): ResolvedField | null {
+  const { from, join } = params;
+  const alias = join && (join.as ?? join.relatedType);
+
+  if (join && field.startsWith(`${alias}.`)) {
+    const name = field.slice(`${alias}.`.length);
+    const relationshipField = relationshipFields[name];
+    if (relationshipField) {
+      return { column: `${alias}.${name}`, numeric: true, read: row => row.related && relationshipField(row.related.relationship) };
+    }
+    const resolved = resolveEntityField(join.relatedType, name);
+    return resolved && { column: `${alias}.${resolved.column}`, numeric: resolved.numeric, read: row => row.related && resolved.read(row.related.entity) };
+  }
+
+  const resolved = resolveEntityField(from, field);
+  return resolved && { column: resolved.column, numeric: resolved.numeric, read: row => resolved.read(row.entity) };
+}
+
+function aggregateColumn(params: Pick<RunQueryParams, 'from' | 'join'>, spec: AggregateSpec): string {
+  if (spec.as) return spec.as;
+  const field = spec.field && resolveField(params, spec.field);
+  return field ? `${spec.function}(${field.column})` : spec.function;
+}
+
+/**
+ * Check the query's field references, join and clause combinations
+ */
+function checkQuery(params: RunQueryParams, ctx: z.RefinementCtx): void {
+  const issue = (path: (string | number)[], message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+  const { from, where, join, select, groupBy, aggregate, orderBy } = params;
+
+  checkFilter(where, from, ctx, ['where']);
+  if (join) {
+    if (!relationshipBetween(from, join.relatedType)) {
+      issue(['join', 'relatedType'], `No relationship links ${from}s to ${join.relatedType}s`);
+    } else {
+      checkFilter(join.where, join.relatedType, ctx, ['join', 'where']);
+    }
+  }
+
+  const checkField = (field: string, path: (string | number)[], numeric = false) => {
+    const resolved = resolveField(params, field);
+    if (!resolved) {
+      issue(path, `Unknown field '${field}'. Fields are ${fieldsDescription}`);
+    } else if (numeric && !resolved.numeric) {
+      issue(path, `Field '${field}' is not numeric`);
+    }
+  };
+
+  select?.forEach((field, index) => checkField(field, ['select', index]));
+  groupBy?.forEach((field, index) => checkField(field, ['groupBy', index]));
+  aggregate?.forEach((spec, index) => {
+    if (spec.field !== undefined) {
+      checkField(spec.field, ['aggregate', index, 'field'], spec.function !== 'count');
+    } else if (spec.function !== 'count') {
+      issue(['aggregate', index, 'field'], `${spec.function} needs a field`);
+    }
+  });
+
+  if (aggregate && aggregate.length > 0) {
+    if (select) issue(['select'], 'select cannot be combined with aggregate; group rows with groupBy instead');
+    const columns = [
+      ...(groupBy ?? []).flatMap(field => resolveField(params, field)?.column ?? []),
+      ...aggregate.map(spec => aggregateColumn(params, spec))
+    ];
+    orderBy?.forEach(({ field }, index) => {
+      const column = resolveField(params, field)?.column ?? field;
+      if (!columns.includes(column)) {
+        issue(['orderBy', index, 'field'], `With aggregate, sort by one of the result columns: ${columns.join(', ')}`);
+      }
+    });
+  } else {
+    if (groupBy) issue(['groupBy'], 'groupBy needs at least one aggregate');
+    orderBy?.forEach(({ field }, index) => checkField(field, ['orderBy', index, 'field']));
+  }
+}
+
+/**
+ * Declarative query over one entity type: select, filter, join through a
+ * relationship, group and aggregate, sort and page
+ */
+export const runQuerySchema = queryClausesSchema.superRefine(checkQuery);
+
+function describeFilter(filter: EntityFilter): string {
+  const { country, publisher, affiliation, metrics = [] } = filter;
+  return [
+    ...(country !== undefined ? [`country is "${country}"`] : []),
+    ...(publisher !== undefined ? [`publisher is "${publisher}"`] : []),
+    ...(affiliation !== undefined ? [`affiliated with "${affiliation}"`] : []),
+    ...metrics.map(({ metric, operator, value }) => `${metric} ${operator} ${value}`)
+  ].join(', ');
+}
+
+function required(params: RunQueryParams, field: string): ResolvedField {
+  const resolved = resolveField(params, field);
+  if (!resolved) throw new Error(`Unresolved field '${field}'`);
+  return resolved;
+}
+
+/**
+ * Sort by several keys, most significant first
+ */
+function sortByKeys<T>(rows: T[], keys: { key: (row: T) => QueryCell | undefined; direction: 'asc' | 'desc' }[]): T[] {
+  return [...keys].reverse().reduce((sorted, { key, direction }) => sortByKey(sorted, row => key(row) ?? undefined, direction), rows);
+}
+
+/**
+ * Plan and run a declarative query. Entities come from an id lookup or name
+ * search when `where` allows it, and a scan otherwise; filters, the join,
+ * grouping and sorting then run over those rows. The result lists the steps
+ * taken in `plan`.
+ */
+export function runQuery(params: RunQueryParams, dataSource: DataSource = mockDataSource): QueryTable {
+  const { from, where = {}, join, groupBy = [], aggregate = [], orderBy = [] } = params;
+  const { ids, name, ...filter } = where;
+  const plan: string[] = [];
+
+  let entities: Entity[];
+  if (ids) {
+    entities = ids.map(id => requireEntity(dataSource, from, id));
+    plan.push(`Look up ${ids.length} ${from}${ids.length === 1 ? '' : 's'} by id`);
+  } else if (name !== undefined) {
+    entities = findEntities(dataSource, name, { entityTypes: [from], limit: Infinity }).map(match => match.entity);
+    plan.push(`Search ${from}s by name "${name}"`);
+  } else {
+    entities = dataSource.listEntities(from);
+    plan.push(`Scan all ${from}s`);
+  }
+
+  if (!isEmptyFilter(filter)) {
+    entities = entities.filter(entity => matchesFilter(dataSource, entity, from, filter));
+    plan.push(`Keep ${from}s where ${describeFilter(filter)}`);
+  }
+
+  let rows: JoinedRow[] = entities.map(entity => ({ entity }));
+  if (join) {
+    const relationship = relationshipBetween(from, join.relatedType)!;
+    rows = entities.flatMap(entity =>
+      findRelated(dataSource, entity.id, relationship, join.relatedType, join.year)
+        .filter(related => matchesFilter(dataSource, related.entity, join.relatedType, join.where))
+        .map(related => ({ entity, related }))
+    );
+    plan.push(
+      `Join ${join.relatedType}s as "${join.as ?? join.relatedType}" through ${relationship} relationships` +
+      (join.year !== undefined ? ` active in ${join.year}` : '') +
+      (!isEmptyFilter(join.where) ? `, where ${describeFilter(join.where!)}` : '')
+    );
+  }
+
+  let columns: string[];
+  let table: Record<string, QueryCell>[];
+  const order = orderBy.map(({ field, direction = 'asc' }) => ({ field, direction }));
+
+  if (aggregate.length > 0) {
+    const keys = groupBy.map(field => required(params, field));
+    // Without groupBy every row falls in one group, which exists even when no rows match (as in SQL)
+    const groups = new Map<string, JoinedRow[]>(keys.length === 0 ? [[JSON.stringify([]), []]] : []);
+    for (const row of rows) {
+      const key = JSON.stringify(keys.map(k => k.read(row) ?? null));
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+
+    const summaries = aggregate.map(spec => ({
+      column: aggregateColumn(params, spec),
+      compute: (group: JoinedRow[]): QueryCell => {
+        if (!spec.field) return group.length;
+        const field = required(params, spec.field);
+        const present = group.map(row => field.read(row)).filter(value => value !== undefined && value !== null);
+        if (spec.function === 'count') return present.length;
+        const values = present.filter((value): value is number => typeof value === 'number');
+        return values.length > 0 ? summaryStatistics[spec.function](values) : null;
+      }
+    }));
+
+    columns = [...keys.map(k => k.column), ...summaries.map(s => s.column)];
+    table = [...groups.values()].map(group => Object.fromEntries([
+      ...keys.map(k => [k.column, k.read(group[0]) ?? null]),
+      ...summaries.map(s => [s.column, s.compute(group)])
+    ]));
+    plan.push(
+      `${keys.length > 0 ? `Group by ${keys.map(k => k.column).join(', ')}` : 'Aggregate all rows'} into ${summaries.map(s => s.column).join(', ')}`
+    );
+
+    if (order.length > 0) {
+      table = sortByKeys(table, order.map(({ field, direction }) => {
+        const column = resolveField(params, field)?.column ?? field;
+        return { key: (row: Record<string, QueryCell>) => row[column], direction };
+      }));
+    }
+  } else {
+    const alias = join && (join.as ?? join.relatedType);
+    const fields = (params.select ?? ['id', 'name', ...(alias ? [`${alias}.id`, `${alias}.name`] : [])]).map(field => required(params, field));
+    columns = fields.map(field => field.column);
+
+    if (order.length > 0) {
+      rows = sortByKeys(rows, order.map(({ field, direction }) => ({ key: required(params, field).read, direction })));
+    }
+    table = rows.map(row => Object.fromEntries(fields.map(field => [field.column, field.read(row) ?? null])));
+  }
+
+  if (order.length > 0) {
+    plan.push(`Sort by ${order.map(({ field, direction }) => `${resolveField(params, field)?.column ?? field} ${direction}`).join(', ')}`);
+  }
+
+  return { columns, ...paginate(table, params), plan };
+}
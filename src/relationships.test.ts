@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { EntityNotFoundError } from './errors';
+import {
+  getAuthorJournals,
+  getInstitutionAuthors,
+  getRelatedEntities,
+  getRelatedEntitiesSchema
+} from './relationships';
+
+describe('getRelatedEntities', () => {
+  it('should traverse affiliations from an author to institutions, most recent first', () => {
+    const result = getRelatedEntities({ entityType: 'author', entityId: 'auth_001', relatedType: 'institution', limit: 10 });
+    expect(result?.relationship).toBe('affiliation');
+    expect(result?.related).toEqual([
+      { id: 'inst_001', name: 'Massachusetts Institute of Technology', startYear: 2016 },
+      { id: 'inst_003', name: 'ETH Zurich', startYear: 2011, endYear: 2015 }
+    ]);
+  });
+
+  it('should traverse relationships in reverse, from journal to authors', () => {
+    const result = getRelatedEntities({ entityType: 'journal', entityId: 'jour_001', relatedType: 'author', limit: 10 });
+    expect(result?.relationship).toBe('authorJournal');
+    expect(result?.related.map(r => [r.id, r.publications])).toEqual([
+      ['auth_001', 8],
+      ['auth_002', 7],
+      ['auth_003', 1]
+    ]);
+  });
+
+  it('should filter by the year a relationship was active', () => {
+    const result = getRelatedEntities({ entityType: 'author', entityId: 'auth_003', relatedType: 'institution', year: 2015, limit: 10 });
+    expect(result?.related.map(r => r.name)).toEqual(['University of Oxford']);
+  });
+
+  it('should filter related entities and page through them', () => {
+    const params = {
+      entityType: 'journal' as const,
+      entityId: 'jour_001',
+      relatedType: 'author' as const,
+      filter: { metrics: [{ metric: 'hIndex' as const, operator: '>=' as const, value: 40 }] },
+      limit: 1
+    };
+    const first = getRelatedEntities(params);
+    expect(first.related.map(r => r.id)).toEqual(['auth_001']);
+    expect(first.totalCount).toBe(2);
+
+    const second = getRelatedEntities({ ...params, cursor: first.nextCursor! });
+    expect(second.related.map(r => r.id)).toEqual(['auth_002']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should throw for non-existent entity', () => {
+    expect(() => getRelatedEntities({ entityType: 'author', entityId: 'nonexistent', relatedType: 'journal', limit: 10 }))
+      .toThrow(EntityNotFoundError);
+  });
+
+  it('should reject entity types without a relationship', () => {
+    expect(getRelatedEntitiesSchema.safeParse({ entityType: 'author', entityId: 'auth_001', relatedType: 'author' }).success).toBe(false);
+  });
+});
+
+describe('getInstitutionAuthors', () => {
+  it('should list authors affiliated with an institution', () => {
+    const result = getInstitutionAuthors({ institutionId: 'inst_001', limit: 10 });
+    expect(result?.related.map(r => r.name)).toEqual(['Dr. Sarah Chen']);
+  });
+
+  it('should exclude authors not affiliated in the given year', () => {
+    expect(getInstitutionAuthors({ institutionId: 'inst_002', year: 2020, limit: 10 })?.related).toEqual([]);
+    expect(getInstitutionAuthors({ institutionId: 'inst_002', year: 2016, limit: 10 })?.related).toHaveLength(1);
+  });
+});
+
+describe('getAuthorJournals', () => {
+  it('should order journals by the author\'s publications', () => {
+    const result = getAuthorJournals({ authorId: 'auth_002', limit: 1 });
+    expect(result?.related).toEqual([{ id: 'jour_002', name: 'Science', publications: 11 }]);
+  });
+});
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { requireEntity } from './entityLookup';
+import { QueryError } from './errors';
+import { checkFilter, checkFilterForEntityType, entityFilterSchema, matchesFilter, pageParamsSchema, paginate } from './listing';
+import { Entity, EntityType, RelatedEntities, Relationship, RelationshipType, relationshipEndpoints } from './types';
+
+const entityTypeSchema = z.enum(['author', 'institution', 'journal']);
+
+/**
+ * The relationship type linking two entity types, if any
+ */
+export function relationshipBetween(entityType: EntityType, relatedType: EntityType): RelationshipType | null {
+  const match = (Object.keys(relationshipEndpoints) as RelationshipType[]).find(type => {
+    const { from, to } = relationshipEndpoints[type];
+    return (from === entityType && to === relatedType) || (from === relatedType && to === entityType);
+  });
+  return match || null;
+}
+
+function isActiveIn(relationship: Relationship, year: number): boolean {
+  return (relationship.startYear ?? -Infinity) <= year && year <= (relationship.endYear ?? Infinity);
+}
+
+/**
+ * Entities of `relatedType` linked to an entity through one relationship type,
+ * with the relationship itself: most shared publications first, then most recent start
+ */
+export function findRelated(
+  dataSource: DataSource,
+  entityId: string,
+  relationship: RelationshipType,
+  relatedType: EntityType,
+  year?: number
+): { entity: Entity; relationship: Relationship }[] {
+  return dataSource.getRelationships(entityId)
+    .filter(r => r.type === relationship)
+    .filter(r => year === undefined || isActiveIn(r, year))
+    .sort((a, b) =>
+      (b.publications ?? -1) - (a.publications ?? -1) ||
+      (b.startYear ?? -Infinity) - (a.startYear ?? -Infinity)
+    )
+    .flatMap(r => {
+      const other = dataSource.getEntity(relatedType, r.fromId === entityId ? r.toId : r.fromId);
+      return other ? [{ entity: other, relationship: r }] : [];
+    });
+}
+
+/**
+ * Traverse from an entity to related entities of another type
+ */
+export const getRelatedEntitiesSchema = z.object({
+  entityType: entityTypeSchema.describe('Type of the starting entity'),
+  entityId: z.string().describe('Starting entity identifier'),
+  relatedType: entityTypeSchema.describe(
+    'Type of related entities: author <-> institution (affiliations), author <-> journal and institution <-> journal (publication venues)'
+  ),
+  year: z.number().optional().describe('Only relationships active in this year, e.g. affiliations held then'),
+  filter: entityFilterSchema.optional().describe('Only related entities meeting these conditions'),
+  ...pageParamsSchema.shape
+}).superRefine(checkFilterForEntityType('relatedType')).superRefine((params, ctx) => {
+  if (!relationshipBetween(params.entityType, params.relatedType)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['relatedType'],
+      message: `No relationship links ${params.entityType}s to ${params.relatedType}s`
+    });
+  }
+});
+
+/**
+ * Related entities are ordered as in findRelated
+ */
+export function getRelatedEntities(
+  params: z.infer<typeof getRelatedEntitiesSchema>,
+  dataSource: DataSource = mockDataSource
+): RelatedEntities {
+  const { entityType, entityId, relatedType, year, filter } = params;
+
+  const entity = requireEntity(dataSource, entityType, entityId);
+  const relationship = relationshipBetween(entityType, relatedType);
+  if (!relationship) {
+    throw new QueryError('TYPE_MISMATCH', `No relationship links ${entityType}s to ${relatedType}s`);
+  }
+
+  const related = findRelated(dataSource, entityId, relationship, relatedType, year)
+    .filter(({ entity: other }) => matchesFilter(dataSource, other, relatedType, filter))
+    .map(({ entity: other, relationship: { startYear, endYear, publications } }) =>
+      ({ id: other.id, name: other.name, startYear, endYear, publications })
+    );
+  const { items, totalCount, nextCursor } = paginate(related, params);
+
+  return {
+    entity: { id: entity.id, name: entity.name },
+    entityType,
+    relatedType,
+    relationship,
+    related: items,
+    totalCount,
+    nextCursor
+  };
+}
+
+/**
+ * Authors affiliated with an institution
+ */
+export const getInstitutionAuthorsSchema = z.object({
+  institutionId: z.string().describe('Institution identifier'),
+  year: z.number().optional().describe('Only authors affiliated in this year (all past and present if omitted)'),
+  filter: entityFilterSchema.optional().describe('Only authors meeting these conditions'),
+  ...pageParamsSchema.shape
+}).superRefine((params, ctx) => checkFilter(params.filter, 'author', ctx));
+
+export function getInstitutionAuthors(
+  params: z.infer<typeof getInstitutionAuthorsSchema>,
+  dataSource: DataSource = mockDataSource
+): RelatedEntities {
+  const { institutionId, year, filter, limit, cursor } = params;
+  return getRelatedEntities(
+    { entityType: 'institution', entityId: institutionId, relatedType: 'author', year, filter, limit, cursor },
+    dataSource
+  );
+}
+
+/**
+ * Journals an author publishes in, most publications first
+ */
+export const getAuthorJournalsSchema = z.object({
+  authorId: z.string().describe('Author identifier'),
+  filter: entityFilterSchema.optional().describe('Only journals meeting these conditions'),
+  ...pageParamsSchema.shape
+}).superRefine((params, ctx) => checkFilter(params.filter, 'journal', ctx));
+
+export function getAuthorJournals(
+  params: z.infer<typeof getAuthorJournalsSchema>,
+  dataSource: DataSource = mockDataSource
+): RelatedEntities {
+  const { authorId, filter, limit, cursor } = params;
+  return getRelatedEntities(
+    { entityType: 'author', entityId: authorId, relatedType: 'journal', filter, limit, cursor },
+    dataSource
+  );
+}
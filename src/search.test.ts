@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { editDistance, findEntities, foldText } from './search';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { DataSource } from './data/dataSource';
+
+const topMatch = (query: string, options = {}) => findEntities(mockDataSource, query, options)[0];
+
+describe('findEntities', () => {
+  it('should ignore accents and case', () => {
+    expect(foldText('Eidgenössische Technische Hochschule Zürich')).toBe('eidgenossische technische hochschule zurich');
+    expect(topMatch('RODRÍGUEZ').entity.id).toBe('auth_003');
+    expect(topMatch('rodriguez').entity.id).toBe('auth_003');
+  });
+
+  it('should tolerate typos, prefixes, titles and word order', () => {
+    expect(topMatch('Sara Chen').entity.id).toBe('auth_001');
+    expect(topMatch('Standford').entity.id).toBe('inst_004');
+    expect(topMatch('Oxford Univ').entity.id).toBe('inst_002');
+    expect(topMatch('Chen Sarah').entity.id).toBe('auth_001');
+    expect(topMatch('Prof. Anderson').entity.id).toBe('auth_002');
+    expect(editDistance('standford', 'stanford')).toBe(1);
+  });
+
+  it('should find institutions by acronym and alias', () => {
+    expect(topMatch('MIT')).toMatchObject({ entity: { id: 'inst_001' }, matchedName: 'mit' });
+    expect(topMatch('ETH').entity.id).toBe('inst_003');
+    expect(topMatch('Swiss Federal Institute of Technology')).toMatchObject({
+      entity: { id: 'inst_003' },
+      matchedName: 'Swiss Federal Institute of Technology Zurich'
+    });
+  });
+
+  it('should rank exact matches first and search every type by default', () => {
+    const matches = findEntities(mockDataSource, 'Nature');
+    expect(matches[0]).toMatchObject({ entity: { id: 'jour_001' }, entityType: 'journal', score: 1 });
+    const scores = findEntities(mockDataSource, 'University').map(match => match.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('should score candidates from the data source prefix search instead of listing every entity', () => {
+    const prefixes: string[] = [];
+    const dataSource: DataSource = {
+      ...mockDataSource,
+      searchEntities: (entityType, query, limit) => {
+        prefixes.push(query);
+        return mockDataSource.searchEntities(entityType, query, limit);
+      },
+      listEntities: () => { throw new Error('Search should not list entities'); }
+    };
+    expect(findEntities(dataSource, 'Standford Univ', { entityTypes: ['institution'] })[0].entity.id).toBe('inst_004');
+    expect(prefixes).toEqual(['st', 'un']);
+    expect(findEntities(dataSource, 'Cantab')[0].entity.id).toBe('inst_005');
+  });
+
+  it('should respect entity types, limit and minScore', () => {
+    expect(findEntities(mockDataSource, 'University', { entityTypes: ['journal'] })).toEqual([]);
+    expect(findEntities(mockDataSource, 'University', { limit: 1 })).toHaveLength(1);
+    expect(findEntities(mockDataSource, 'Standford', { minScore: 0.9 })).toEqual([]);
+    expect(findEntities(mockDataSource, 'xyz123notfound')).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { DataSource } from './data/dataSource';
+import { Entity, EntityType, entityTypes } from './types';
+
+/**
+ * Other names entities are known by, keyed by entity name: abbreviations and
+ * native or former names that share few words with the name. Acronyms of
+ * multi-word names (e.g. MIT) are derived and need no entry.
+ */
+export const nameAliases: Record<string, string[]> = {
+  'ETH Zurich': [
+    'ETH',
+    'ETHZ',
+    'Swiss Federal Institute of Technology Zurich',
+    'Eidgenössische Technische Hochschule Zürich'
+  ],
+  'University of Oxford': ['Oxford University', 'Oxon'],
+  'University of Cambridge': ['Cambridge University', 'Cantab'],
+  'Stanford University': ['Leland Stanford Junior University']
+};
+
+/**
+ * Words ignored on both sides of a match, so "Dr. Chen" finds "Chen" and vice versa
+ */
+const titles = new Set(['dr', 'prof', 'professor', 'mr', 'mrs', 'ms']);
+
+/**
+ * Words left out of derived acronyms ("Massachusetts Institute of Technology" is MIT)
+ */
+const connectives = new Set(['of', 'the', 'and', 'for', 'de', 'la', 'at', 'in']);
+
+/**
+ * Score for a query found inside a name but not on word boundaries, e.g. "ford" in "Stanford"
+ */
+const SUBSTRING_SCORE = 0.5;
+
+/**
+ * Matches through an alias rank just below equally good matches on the name itself
+ */
+const ALIAS_WEIGHT = 0.95;
+
+/**
+ * Candidates are fetched by the first letters of each query word, so typos
+ * after them are still found
+ */
+const CANDIDATE_PREFIX_LENGTH = 2;
+
+/**
+ * Lowercase and strip diacritics: "Rodríguez" and "rodriguez" are the same
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return (foldText(text).match(/[a-z0-9]+/g) ?? []).filter(token => !titles.has(token));
+}
+
+/**
+ * Levenshtein distance: single-character insertions, deletions and substitutions
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well one query word matches one name word: 1 if equal, 0.9 as a prefix
+ * ("univ" for "university"), 0.8 or 0.7 one or two typos away, else 0.
+ * Longer words tolerate more typos; words under four letters tolerate none.
+ */
+function tokenSimilarity(queryToken: string, nameToken: string): number {
+  if (queryToken === nameToken) return 1;
+  if (queryToken.length >= 2 && nameToken.startsWith(queryToken)) return 0.9;
+
+  const allowedEdits = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0;
+  if (allowedEdits === 0 || Math.abs(queryToken.length - nameToken.length) > allowedEdits) return 0;
+  const distance = editDistance(queryToken, nameToken);
+  return distance <= allowedEdits ? 0.9 - 0.1 * distance : 0;
+}
+
+/**
+ * Relevance of a name to a query, from 0 to 1. Every query word must match a
+ * different name word; the score is their mean similarity, scaled down when
+ * the query covers only part of the name, so "Nature" ranks the journal
+ * Nature above "Nature Communications".
+ */
+function scoreName(queryTokens: string[], foldedQuery: string, name: string): number {
+  const nameTokens = tokenize(name);
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+  if (queryTokens.join(' ') === nameTokens.join(' ')) return 1;
+
+  const used = new Set<number>();
+  let total = 0;
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    let bestIndex = -1;
+    nameTokens.forEach((nameToken, index) => {
+      const similarity = used.has(index) ? 0 : tokenSimilarity(queryToken, nameToken);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (best === 0) {
+      return foldedQuery.length >= 3 && foldText(name).includes(foldedQuery) ? SUBSTRING_SCORE : 0;
+    }
+    used.add(bestIndex);
+    total += best;
+  }
+
+  const coverage = used.size / nameTokens.length;
+  return Math.min(0.99, (total / queryTokens.length) * (0.7 + 0.3 * coverage));
+}
+
+/**
+ * Initials of a multi-word institution or journal name, e.g. "mit"
+ */
+function acronymOf(name: string): string | null {
+  const words = tokenize(name).filter(word => !connectives.has(word));
+  return words.length >= 3 ? words.map(word => word[0]).join('') : null;
+}
+
+/**
+ * Words a name is indexed under for prefix search (DataSource.searchEntities):
+ * its folded words and, for institutions and journals, its acronym
+ */
+export function searchTerms(name: string, entityType: EntityType): string[] {
+  const acronym = entityType === 'author' ? null : acronymOf(name);
+  return [...new Set([...tokenize(name), ...(acronym ? [acronym] : [])])];
+}
+
+/**
+ * Names an entity can be found by besides its own
+ */
+function aliasesOf(entity: Entity, entityType: EntityType): string[] {
+  const acronym = entityType === 'author' ? null : acronymOf(entity.name);
+  return [...(nameAliases[entity.name] ?? []), ...(acronym ? [acronym] : [])];
+}
+
+/**
+ * An entity matching a search
+ */
+export interface SearchMatch {
+  entity: Entity;
+  entityType: EntityType;
+  /** Relevance from 0 to 1; 1 is an exact match on the name */
+  score: number;
+  /** The name or alias that matched */
+  matchedName: string;
+}
+
+export interface SearchOptions {
+  /** Entity types to search (default: all) */
+  entityTypes?: EntityType[];
+  /** Most matches to return (default 10) */
+  limit?: number;
+  /** Drop matches scoring lower (default 0.5) */
+  minScore?: number;
+}
+
+/**
+ * Prefixes to fetch candidates by: the start of each query word, and of the
+ * names whose aliases match the query (aliases aren't indexed)
+ */
+function candidatePrefixes(queryTokens: string[], foldedQuery: string, minScore: number): string[] {
+  const aliased = Object.entries(nameAliases)
+    .filter(([, aliases]) => aliases.some(alias => scoreName(queryTokens, foldedQuery, alias) * ALIAS_WEIGHT >= minScore))
+    .flatMap(([name]) => tokenize(name));
+  return [...new Set([...queryTokens, ...aliased].map(token => token.slice(0, CANDIDATE_PREFIX_LENGTH)))];
+}
+
+/**
+ * Find entities by name, tolerating accents, word order, abbreviations,
+ * prefixes and typos. Candidates come from the data source's prefix search
+ * (see candidatePrefixes) and are scored here, so a word is only found if it
+ * starts with the same letters as a query word. Best matches first; ties keep
+ * the order the data source returned them in.
+ */
+export function findEntities(dataSource: DataSource, query: string, options: SearchOptions = {}): SearchMatch[] {
+  const { entityTypes: types = entityTypes, limit = 10, minScore = SUBSTRING_SCORE } = options;
+  const queryTokens = tokenize(query);
+  const foldedQuery = foldText(query).trim();
+  if (queryTokens.length === 0) return [];
+  const prefixes = candidatePrefixes(queryTokens, foldedQuery, minScore);
+
+  const matches: SearchMatch[] = [];
+  for (const entityType of types) {
+    const candidates = new Map<string, Entity>();
+    for (const prefix of prefixes) {
+      for (const entity of dataSource.searchEntities(entityType, prefix)) candidates.set(entity.id, entity);
+    }
+
+    for (const entity of candidates.values()) {
+      let best = { score: scoreName(queryTokens, foldedQuery, entity.name), matchedName: entity.name };
+      for (const alias of aliasesOf(entity, entityType)) {
+        const score = scoreName(queryTokens, foldedQuery, alias) * ALIAS_WEIGHT;
+        if (score > best.score) best = { score, matchedName: alias };
+      }
+      if (best.score >= minScore) {
+        matches.push({ entity, entityType, score: Math.round(best.score * 1000) / 1000, matchedName: best.matchedName });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { createChatSessions, createInMemorySessionStore } from './sessions';
+
+function conversation(options: Parameters<typeof createChatSessions>[0] = {}) {
+  const sessions = createChatSessions(options);
+  let sessionId: string | undefined;
+  const say = (message: string, execute = false) => {
+    const reply = sessions.chat(message, { sessionId, execute })!;
+    sessionId = reply.sessionId;
+    return reply;
+  };
+  return { sessions, say, id: () => sessionId! };
+}
+
+describe('createChatSessions', () => {
+  it('should resolve pronouns against the last named entity', () => {
+    const { say } = conversation();
+    say("What is Sarah Chen's h-index?");
+
+    expect(say('And what about her h-index trend?').suggestedQueries).toEqual([
+      { functionName: 'getTrend', params: { entityId: 'auth_001', metric: 'hIndex' } }
+    ]);
+  });
+
+  it('should carry the operation, entities and metrics into follow-ups', () => {
+    const { say } = conversation();
+    say('Compare Chen and Anderson on citations since 2020');
+
+    expect(say('and h-index?').suggestedQueries).toEqual([
+      { functionName: 'compareEntities', params: { entityType: 'author', entityIdA: 'auth_001', entityIdB: 'auth_002', metric: 'hIndex' } }
+    ]);
+    expect(say('What about Rodriguez?').suggestedQueries).toEqual([
+      { functionName: 'compareMultipleEntities', params: { entityType: 'author', entityIds: ['auth_001', 'auth_002', 'auth_003'], metrics: ['hIndex'] } }
+    ]);
+  });
+
+  it('should complete a clarified request', () => {
+    const { say } = conversation();
+    expect(say('Compare Oxford and Cambridge').clarification).toBeDefined();
+
+    expect(say('on citations').suggestedQueries).toEqual([
+      { functionName: 'compareEntities', params: { entityType: 'institution', entityIdA: 'inst_002', entityIdB: 'inst_005', metric: 'citations' } }
+    ]);
+  });
+
+  it('should switch entity type in a follow-up ranking', () => {
+    const { say } = conversation();
+    say('Top 3 authors by citations');
+
+    expect(say('what about institutions?').suggestedQueries).toEqual([
+      { functionName: 'getTopEntities', params: { entityType: 'institution', metric: 'citations', limit: 3 } }
+    ]);
+  });
+
+  it('should refer back to entities returned by executed queries', () => {
+    const { say } = conversation();
+    const top = say('Who is the most cited author?', true);
+    expect(top.results).toEqual([expect.objectContaining({ functionName: 'getTopEntities', success: true })]);
+
+    const trend = say('How has their output changed since 2022?', true);
+    expect(trend.suggestedQueries).toEqual([
+      { functionName: 'getTrend', params: { entityId: 'auth_002', metric: 'publications', startYear: 2022 } }
+    ]);
+    expect(trend.results?.[0].result).toEqual([{ year: 2022, value: 26 }, { year: 2023, value: 25 }]);
+  });
+
+  it('should ask which entity a singular pronoun means when several were named', () => {
+    const { say } = conversation();
+    say('Compare Chen and Anderson on citations');
+
+    expect(say('Show her trend').clarification).toBe('Who do you mean by "her": Dr. Sarah Chen or Prof. James Anderson?');
+  });
+
+  it('should record messages, entities and executed queries', () => {
+    const { sessions, say, id } = conversation();
+    say('Tell me about MIT', true);
+    say('and Stanford?');
+
+    const session = sessions.get(id())!;
+    expect(session.messages.map(m => [m.role, m.content])).toEqual([
+      ['user', 'Tell me about MIT'],
+      ['assistant', 'Here is what I have on Massachusetts Institute of Technology.'],
+      ['user', 'and Stanford?'],
+      ['assistant', 'Here is what I have on Stanford University.']
+    ]);
+    expect(session.entities.map(e => e.id)).toEqual(['inst_001', 'inst_004']);
+    expect(session.queries).toEqual([
+      expect.objectContaining({ functionName: 'getEntity', params: { entityType: 'institution', entityId: 'inst_001' }, success: true })
+    ]);
+  });
+
+  it('should keep only the latest history, without query results', () => {
+    const { sessions, say, id } = conversation({ maxHistory: 3 });
+    say('Tell me about MIT', true);
+    say('and Stanford?', true);
+
+    const session = sessions.get(id())!;
+    expect(session.messages.map(m => m.content)).toEqual([
+      'Here is what I have on Massachusetts Institute of Technology.',
+      'and Stanford?',
+      'Here is what I have on Stanford University.'
+    ]);
+    expect(session.queries.map(q => q.params.entityId)).toEqual(['inst_001', 'inst_004']);
+    expect(session.queries.every(q => q.result === undefined && q.narrative !== undefined)).toBe(true);
+  });
+
+  it('should expire idle sessions', () => {
+    let clock = Date.parse('2026-01-01T00:00:00Z');
+    const store = createInMemorySessionStore();
+    const { sessions, say, id } = conversation({ store, ttlMs: 60_000, now: () => clock });
+
+    say('Tell me about Nature');
+    clock += 30_000;
+    say('and Science?');
+    clock += 59_000;
+    expect(sessions.get(id())?.expiresAt).toBe('2026-01-01T00:01:30.000Z');
+
+    clock += 1_000;
+    expect(sessions.get(id())).toBeNull();
+    expect(sessions.chat('and Cell?', { sessionId: id() })).toBeNull();
+    expect(store.list()).toEqual([]);
+  });
+
+  it('should drop expired and least recently used sessions as new ones are saved', () => {
+    let clock = Date.parse('2026-01-01T00:00:00Z');
+    const store = createInMemorySessionStore();
+    const sessions = createChatSessions({ store, ttlMs: 60_000, maxSessions: 2, now: () => clock });
+
+    const stale = sessions.chat('Tell me about Nature')!.sessionId;
+    clock += 60_000;
+    const first = sessions.chat('Tell me about Science')!.sessionId;
+    expect(store.list().map(session => session.id)).toEqual([first]);
+
+    clock += 1_000;
+    const second = sessions.chat('Tell me about Cell')!.sessionId;
+    clock += 1_000;
+    sessions.chat('and Nature?', { sessionId: first });
+    clock += 1_000;
+    const third = sessions.chat('Tell me about MIT')!.sessionId;
+
+    expect(store.list().map(session => session.id).sort()).toEqual([first, third].sort());
+    expect([stale, second].map(id => sessions.get(id))).toEqual([null, null]);
+  });
+
+  it('should list and delete sessions', () => {
+    const sessions = createChatSessions();
+    const { sessionId } = sessions.chat('Tell me about Nature')!;
+
+    expect(sessions.list()).toEqual([expect.objectContaining({ id: sessionId, messageCount: 2 })]);
+    expect(sessions.delete(sessionId)).toBe(true);
+    expect(sessions.delete(sessionId)).toBe(false);
+    expect(sessions.list()).toEqual([]);
+  });
+});
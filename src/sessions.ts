@@ -0,0 +1,249 @@
+import { randomUUID } from 'crypto';
+import { DataSource } from './data/dataSource';
+import { mockDataSource } from './data/inMemoryDataSource';
+import { executeQuery, QueryErrorBody } from './execution';
+import { ChatContext, ChatResolution, resolveChatMessage, ResolvedEntity, SuggestedQuery } from './intent';
+import { EntityType, Page } from './types';
+
+/**
+ * A message in a chat session
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+/**
+ * A suggested query the session ran, with its outcome
+ */
+export interface ExecutedQuery extends SuggestedQuery {
+  success: boolean;
+  /** Returned in the reply only; sessions keep the narrative */
+  result?: unknown;
+  /** The result in words */
+  narrative?: string;
+  error?: QueryErrorBody;
+  timestamp: string;
+}
+
+/**
+ * Conversation state kept between /api/chat calls
+ */
+export interface ChatSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Sessions expire after a period without messages */
+  expiresAt: string;
+  /** The latest messages, up to the session's history limit */
+  messages: ChatMessage[];
+  /** Every entity the conversation has referred to, in first-mention order */
+  entities: ResolvedEntity[];
+  /** The latest executed queries, without their results, up to the history limit */
+  queries: ExecutedQuery[];
+  /** What pronouns and follow-ups in the next message resolve against */
+  context?: ChatContext;
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+  messageCount: number;
+}
+
+/**
+ * Storage for chat sessions. Expiry is handled by the caller, so a store only
+ * needs to keep sessions by id.
+ */
+export interface SessionStore {
+  /** Look up a session by id, or null if it does not exist */
+  get(id: string): ChatSession | null;
+
+  /** Create or replace a session */
+  save(session: ChatSession): void;
+
+  /** Remove a session, returning whether it existed */
+  delete(id: string): boolean;
+
+  /** Every stored session */
+  list(): ChatSession[];
+}
+
+/**
+ * Create a session store held in process memory
+ */
+export function createInMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, ChatSession>();
+
+  return {
+    get(id) {
+      return sessions.get(id) || null;
+    },
+
+    save(session) {
+      sessions.set(session.id, session);
+    },
+
+    delete(id) {
+      return sessions.delete(id);
+    },
+
+    list() {
+      return [...sessions.values()];
+    }
+  };
+}
+
+export interface ChatSessionOptions {
+  /** Data source messages are resolved and queries run against (defaults to the bundled mock data) */
+  dataSource?: DataSource;
+  /** Defaults to a new in-memory store */
+  store?: SessionStore;
+  /** Idle time before a session expires (default 30 minutes) */
+  ttlMs?: number;
+  /** Most sessions kept at once; the least recently used go first (default 1000) */
+  maxSessions?: number;
+  /** Most messages, and most executed queries, kept per session; the oldest go first (default 100) */
+  maxHistory?: number;
+  /** Clock, in milliseconds since the epoch (defaults to Date.now) */
+  now?: () => number;
+}
+
+export interface ChatOptions {
+  /** Continue this session instead of starting a new one */
+  sessionId?: string;
+  /** Run the suggested queries and return their results */
+  execute?: boolean;
+}
+
+export interface ChatReply extends ChatResolution {
+  sessionId: string;
+  /** Outcomes of the suggested queries, when executed */
+  results?: ExecutedQuery[];
+}
+
+export interface ChatSessions {
+  /** Reply to a message, or null if the given session does not exist or has expired */
+  chat(message: string, options?: ChatOptions): ChatReply | null;
+  get(id: string): ChatSession | null;
+  list(): ChatSessionSummary[];
+  delete(id: string): boolean;
+}
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 1000;
+const DEFAULT_MAX_HISTORY = 100;
+
+/**
+ * Entities a query returned, which "they" or "it" can refer to next
+ */
+function entitiesInResult(query: ExecutedQuery): ResolvedEntity[] {
+  if (!query.success) return [];
+  if (query.functionName !== 'getTopEntities' && query.functionName !== 'searchEntities') return [];
+
+  // Search hits carry their own type, as a search may span every type
+  const entityType = query.params.entityType as EntityType;
+  return (query.result as Page<{ id: string; name: string; entityType?: EntityType }>).items
+    .map(e => ({ id: e.id, name: e.name, entityType: e.entityType ?? entityType, mention: e.name }));
+}
+
+/**
+ * Chat sessions: resolve each message in the context of the conversation so
+ * far, and remember what it referred to for the next one.
+ */
+export function createChatSessions(options: ChatSessionOptions = {}): ChatSessions {
+  const {
+    dataSource = mockDataSource,
+    store = createInMemorySessionStore(),
+    ttlMs = DEFAULT_TTL_MS,
+    maxSessions = DEFAULT_MAX_SESSIONS,
+    maxHistory = DEFAULT_MAX_HISTORY,
+    now = Date.now
+  } = options;
+
+  const isExpired = (session: ChatSession) => Date.parse(session.expiresAt) <= now();
+
+  const get = (id: string): ChatSession | null => {
+    const session = store.get(id);
+    if (session && isExpired(session)) {
+      store.delete(id);
+      return null;
+    }
+    return session;
+  };
+
+  // Every message without a sessionId starts a session, so expired and surplus ones are dropped as new ones are saved
+  const sweep = (current: ChatSession) => {
+    const others = store.list().filter(session => session.id !== current.id && get(session.id));
+    const excess = others.length + 1 - maxSessions;
+    if (excess <= 0) return;
+    others
+      .sort((a, b) => Date.parse(a.updatedAt) - Date.parse(b.updatedAt))
+      .slice(0, excess)
+      .forEach(session => store.delete(session.id));
+  };
+
+  const create = (): ChatSession => {
+    const timestamp = new Date(now()).toISOString();
+    return { id: randomUUID(), createdAt: timestamp, updatedAt: timestamp, expiresAt: timestamp, messages: [], entities: [], queries: [] };
+  };
+
+  return {
+    chat(message, { sessionId, execute = false } = {}) {
+      const session = sessionId === undefined ? create() : get(sessionId);
+      if (!session) return null;
+
+      const timestamp = new Date(now()).toISOString();
+      const resolution = resolveChatMessage(message, dataSource, { context: session.context });
+      const { intent } = resolution;
+
+      const results: ExecutedQuery[] | undefined = execute
+        ? resolution.suggestedQueries.map(query => {
+            const outcome = executeQuery(query.functionName, query.params, dataSource, { narrative: true });
+            return {
+              ...query,
+              success: outcome.success,
+              ...(outcome.success ? { result: outcome.result, narrative: outcome.narrative } : { error: outcome.body }),
+              timestamp
+            };
+          })
+        : undefined;
+
+      // Later messages refer to what this one returned ("how has their output changed?"), else to what it named
+      const returned = (results ?? []).flatMap(entitiesInResult);
+      const referred = returned.length > 0 ? returned : intent.entities;
+      if (intent.operation !== 'unknown' || referred.length > 0) {
+        session.context = { intent, entities: referred.length > 0 ? referred : session.context?.entities ?? [] };
+      }
+
+      for (const entity of [...intent.entities, ...returned]) {
+        if (!session.entities.some(e => e.id === entity.id)) session.entities.push(entity);
+      }
+      session.messages.push({ role: 'user', content: message, timestamp }, { role: 'assistant', content: resolution.message, timestamp });
+      session.queries.push(...(results ?? []).map(({ result, ...query }) => query));
+      session.messages.splice(0, session.messages.length - maxHistory);
+      session.queries.splice(0, session.queries.length - maxHistory);
+      session.updatedAt = timestamp;
+      session.expiresAt = new Date(now() + ttlMs).toISOString();
+      store.save(session);
+      sweep(session);
+
+      return { sessionId: session.id, ...resolution, ...(results && { results }) };
+    },
+
+    get,
+
+    list() {
+      return store.list()
+        .filter(session => get(session.id))
+        .map(({ id, createdAt, updatedAt, expiresAt, messages }) => ({ id, createdAt, updatedAt, expiresAt, messageCount: messages.length }));
+    },
+
+    delete(id) {
+      return get(id) !== null && store.delete(id);
+    }
+  };
+}
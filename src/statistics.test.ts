@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { linearFit, mean, median, percentile, percentDifference, rank } from './statistics';
+
+describe('statistics', () => {
+  it('should compute mean and median', () => {
+    expect(mean([1, 2, 6])).toBe(3);
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(mean([])).toBe(0);
+  });
+
+  it('should interpolate percentiles', () => {
+    expect(percentile([10, 20, 30, 40, 50], 25)).toBe(20);
+    expect(percentile([10, 20], 75)).toBe(17.5);
+  });
+
+  it('should treat a zero reference as no difference', () => {
+    expect(percentDifference(15, 10)).toBe(50);
+    expect(percentDifference(5, 0)).toBe(0);
+  });
+
+  it('should give tied values the same competition rank', () => {
+    expect(rank([3, 5, 5, 1])).toEqual([3, 1, 1, 4]);
+    expect(rank([3, 5, 1], false)).toEqual([2, 3, 1]);
+  });
+
+  it('should fit a least-squares line', () => {
+    const fit = linearFit([{ x: 0, y: 12 }, { x: 1, y: 15 }, { x: 2, y: 18 }, { x: 3, y: 22 }, { x: 4, y: 19 }]);
+    expect(fit.slope).toBeCloseTo(2.1);
+    expect(fit.intercept).toBeCloseTo(13);
+    expect(fit.rSquared).toBeCloseTo(0.75);
+    expect(linearFit([{ x: 0, y: 5 }, { x: 1, y: 5 }])).toEqual({ slope: 0, intercept: 5, rSquared: 0 });
+  });
+});
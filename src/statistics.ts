@@ -0,0 +1,73 @@
+/**
+ * Small numeric helpers shared by comparison, benchmarking and aggregation queries
+ */
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Linearly interpolated percentile (0-100) of the values
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Ways to summarize a group of values, by name. All but count need at least one value.
+ */
+export const summaryStatistics = {
+  count: (values: number[]) => values.length,
+  sum: (values: number[]) => values.reduce((total, value) => total + value, 0),
+  mean,
+  median,
+  min: (values: number[]) => Math.min(...values),
+  max: (values: number[]) => Math.max(...values)
+};
+
+export type SummaryStatistic = keyof typeof summaryStatistics;
+
+export const summaryStatisticNames = Object.keys(summaryStatistics) as [SummaryStatistic, ...SummaryStatistic[]];
+
+/**
+ * Percent difference of a value from a reference (0 when the reference is 0)
+ */
+export function percentDifference(value: number, reference: number): number {
+  return reference !== 0 ? ((value - reference) / reference) * 100 : 0;
+}
+
+/**
+ * Competition ranks ("1, 1, 3") for each value, 1 being the best
+ */
+export function rank(values: number[], higherIsBetter = true): number[] {
+  return values.map(value =>
+    1 + values.filter(other => (higherIsBetter ? other > value : other < value)).length
+  );
+}
+
+/**
+ * Least-squares line through the points, with the share of variance it explains (0 for a flat series)
+ */
+export function linearFit(points: { x: number; y: number }[]): { slope: number; intercept: number; rSquared: number } {
+  const meanX = mean(points.map(p => p.x));
+  const meanY = mean(points.map(p => p.y));
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const syy = points.reduce((sum, p) => sum + (p.y - meanY) ** 2, 0);
+
+  const slope = sxx !== 0 ? sxy / sxx : 0;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    rSquared: sxx !== 0 && syy !== 0 ? (sxy * sxy) / (sxx * syy) : 0
+  };
+}
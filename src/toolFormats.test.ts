@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { zodToJsonSchema } from './jsonSchema';
+import { dropNullArguments, formatTools, queryFunctionDefinitions, toGeminiSchema, toStrictJsonSchema } from './toolFormats';
+
+const params = zodToJsonSchema(z.object({
+  entityType: z.enum(['author', 'institution']).describe('Type of entity'),
+  year: z.number().optional().describe('Year'),
+  limit: z.number().int().optional().default(10).describe('Maximum results'),
+  order: z.enum(['asc', 'desc']).nullable().describe('Sort order')
+}));
+
+const definitions = queryFunctionDefinitions();
+
+describe('toStrictJsonSchema', () => {
+  it('should require every property and make optional ones nullable', () => {
+    expect(toStrictJsonSchema(params)).toEqual({
+      type: 'object',
+      properties: {
+        entityType: { type: 'string', enum: ['author', 'institution'], description: 'Type of entity' },
+        year: { type: ['number', 'null'], description: 'Year' },
+        limit: { type: ['integer', 'null'], description: 'Maximum results. Defaults to 10' },
+        order: {
+          anyOf: [{ type: 'string', enum: ['asc', 'desc'] }, { type: 'null' }],
+          description: 'Sort order'
+        }
+      },
+      required: ['entityType', 'year', 'limit', 'order'],
+      additionalProperties: false
+    });
+  });
+
+  it('should give up on open objects', () => {
+    expect(toStrictJsonSchema(zodToJsonSchema(z.object({ weights: z.record(z.number()) })))).toBeNull();
+  });
+
+  it('should make every query function strict', () => {
+    const { tools } = formatTools('openai', definitions) as { tools: { function: { strict: boolean } }[] };
+    expect(tools.every(tool => tool.function.strict)).toBe(true);
+  });
+});
+
+describe('toGeminiSchema', () => {
+  it('should use nullable and drop unsupported keywords', () => {
+    expect(toGeminiSchema(params)).toEqual({
+      type: 'object',
+      properties: {
+        entityType: { type: 'string', enum: ['author', 'institution'], description: 'Type of entity' },
+        year: { type: 'number', description: 'Year' },
+        limit: { type: 'integer', description: 'Maximum results. Defaults to 10' },
+        order: { type: 'string', enum: ['asc', 'desc'], description: 'Sort order', nullable: true }
+      },
+      required: ['entityType', 'order']
+    });
+  });
+});
+
+describe('formatTools', () => {
+  it('should emit each provider shape', () => {
+    const [getEntity] = definitions;
+
+    expect(formatTools('openai', [getEntity]).tools[0]).toMatchObject({
+      type: 'function',
+      function: { name: 'getEntity', strict: true, parameters: { required: ['entityType', 'entityId'] } }
+    });
+    expect(formatTools('anthropic', [getEntity]).tools[0]).toEqual({
+      name: 'getEntity',
+      description: getEntity.description,
+      input_schema: getEntity.parameters
+    });
+    expect(formatTools('gemini', [getEntity]).tools).toEqual([{
+      functionDeclarations: [{ name: 'getEntity', description: getEntity.description, parameters: toGeminiSchema(getEntity.parameters) }]
+    }]);
+    expect(formatTools('mcp', [getEntity]).tools[0]).toEqual({
+      name: 'getEntity',
+      description: getEntity.description,
+      inputSchema: getEntity.parameters,
+      annotations: { readOnlyHint: true }
+    });
+  });
+});
+
+describe('dropNullArguments', () => {
+  it('should remove null properties at any depth', () => {
+    expect(dropNullArguments({ a: 1, b: null, c: { d: null, e: [1, null] } })).toEqual({ a: 1, c: { e: [1, null] } });
+  });
+});
@@ -0,0 +1,205 @@
+import { JsonSchema, zodToJsonSchema } from './jsonSchema';
+import { queryFunctions } from './queries';
+
+/**
+ * A query function as published to LLM clients
+ */
+export interface FunctionDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+/**
+ * Definitions of every entry in `queryFunctions`, with JSON Schema parameters
+ */
+export function queryFunctionDefinitions(): FunctionDefinition[] {
+  return Object.entries(queryFunctions).map(([name, config]) => ({
+    name,
+    description: config.description,
+    parameters: zodToJsonSchema(config.schema)
+  }));
+}
+
+/**
+ * Provider formats `GET /api/functions?format=` can emit
+ * - openai: Chat Completions `tools`, with strict schemas where possible
+ * - anthropic: Messages API `tools` with `input_schema`
+ * - gemini: `tools` holding `functionDeclarations` (OpenAPI 3.0 schema subset)
+ * - mcp: the result of an MCP `tools/list` request
+ */
+export const toolFormats = ['openai', 'anthropic', 'gemini', 'mcp'] as const;
+
+export type ToolFormat = typeof toolFormats[number];
+
+export function isToolFormat(value: unknown): value is ToolFormat {
+  return toolFormats.includes(value as ToolFormat);
+}
+
+/**
+ * Tool definitions in a provider's format, ready to send as its `tools` field
+ */
+export function formatTools(format: ToolFormat, functions: FunctionDefinition[]): { tools: unknown[] } {
+  switch (format) {
+    case 'openai':
+      return { tools: functions.map(toOpenAITool) };
+
+    case 'anthropic':
+      return {
+        tools: functions.map(fn => ({ name: fn.name, description: fn.description, input_schema: fn.parameters }))
+      };
+
+    case 'gemini':
+      return {
+        tools: [{
+          functionDeclarations: functions.map(fn => ({
+            name: fn.name,
+            description: fn.description,
+            parameters: toGeminiSchema(fn.parameters)
+          }))
+        }]
+      };
+
+    case 'mcp':
+      return {
+        tools: functions.map(fn => ({
+          name: fn.name,
+          description: fn.description,
+          inputSchema: fn.parameters,
+          annotations: { readOnlyHint: true }
+        }))
+      };
+  }
+}
+
+/**
+ * OpenAI tool definition. Functions whose parameters can't be expressed in
+ * strict mode (e.g. open records) fall back to `strict: false`.
+ */
+export function toOpenAITool(fn: FunctionDefinition) {
+  const strictParameters = toStrictJsonSchema(fn.parameters);
+  return {
+    type: 'function' as const,
+    function: {
+      name: fn.name,
+      description: fn.description,
+      parameters: strictParameters ?? fn.parameters,
+      strict: strictParameters !== null
+    }
+  };
+}
+
+/**
+ * Rewrite a schema for OpenAI strict mode: every property is required and
+ * optional ones accept null instead, objects are closed, and defaults move
+ * into the description. Returns null if the schema can't be made strict.
+ */
+export function toStrictJsonSchema(schema: JsonSchema): JsonSchema | null {
+  const strict = withoutDefault(schema);
+
+  if (strict.type === 'object') {
+    if (strict.additionalProperties !== false) return null;
+
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, property] of Object.entries(strict.properties ?? {})) {
+      const converted = toStrictJsonSchema(property);
+      if (!converted) return null;
+      properties[key] = schema.required?.includes(key) ? converted : nullable(converted);
+    }
+    return { ...strict, properties, required: Object.keys(properties) };
+  }
+
+  if (strict.items) {
+    const items = toStrictJsonSchema(strict.items);
+    if (!items) return null;
+    strict.items = items;
+  }
+
+  if (strict.anyOf) {
+    const options = strict.anyOf.map(toStrictJsonSchema);
+    if (options.some(option => !option)) return null;
+    strict.anyOf = options as JsonSchema[];
+  }
+
+  return strict;
+}
+
+/**
+ * Rewrite a schema for Gemini, which takes an OpenAPI 3.0 subset: no
+ * `additionalProperties`, `const` or exclusive bounds, and `nullable`
+ * instead of a null type.
+ */
+export function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  const {
+    additionalProperties: _additionalProperties,
+    exclusiveMinimum: _exclusiveMinimum,
+    exclusiveMaximum: _exclusiveMaximum,
+    const: constValue,
+    format,
+    ...rest
+  } = withoutDefault(schema);
+  const gemini: JsonSchema = rest;
+
+  if (typeof constValue === 'string') gemini.enum = [constValue];
+  // Gemini only accepts these string formats
+  if (format === 'date-time' || format === 'enum') gemini.format = format;
+
+  if (gemini.properties) {
+    gemini.properties = Object.fromEntries(
+      Object.entries(gemini.properties).map(([key, property]) => [key, toGeminiSchema(property)])
+    );
+  }
+  if (gemini.items) gemini.items = toGeminiSchema(gemini.items);
+
+  if (gemini.anyOf) {
+    const options = gemini.anyOf.filter(option => option.type !== 'null').map(toGeminiSchema);
+    const isNullable = options.length < gemini.anyOf.length;
+    delete gemini.anyOf;
+
+    if (options.length === 1) {
+      return { ...options[0], ...gemini, ...(isNullable && { nullable: true }) };
+    }
+    return { ...gemini, anyOf: options, ...(isNullable && { nullable: true }) };
+  }
+
+  return gemini;
+}
+
+/**
+ * Remove null-valued properties from tool call arguments. Strict-mode tools
+ * send null for optional parameters the model leaves out, where the query
+ * schemas expect the property to be absent.
+ */
+export function dropNullArguments(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(dropNullArguments);
+  if (!value || typeof value !== 'object') return value;
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, property]) => property !== null)
+      .map(([key, property]) => [key, dropNullArguments(property)])
+  );
+}
+
+function withoutDefault(schema: JsonSchema): JsonSchema {
+  const { default: defaultValue, ...rest } = schema;
+  if (defaultValue === undefined) return { ...rest };
+
+  const note = `Defaults to ${JSON.stringify(defaultValue)}`;
+  return { ...rest, description: rest.description ? `${rest.description}. ${note}` : note };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string') {
+    return {
+      ...schema,
+      type: [schema.type, 'null'],
+      ...(schema.enum && { enum: [...schema.enum, null] })
+    };
+  }
+  if (schema.anyOf) {
+    return { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] };
+  }
+  const { description, ...rest } = schema;
+  return { ...(description !== undefined && { description }), anyOf: [rest, { type: 'null' }] };
+}
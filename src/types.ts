@@ -5,6 +5,8 @@ import { z } from 'zod';
  */
 export type EntityType = 'author' | 'institution' | 'journal';
 
+export const entityTypes: EntityType[] = ['author', 'institution', 'journal'];
+
 /**
  * Time period for metrics
  */
@@ -22,6 +24,7 @@ export const AuthorSchema = z.object({
   id: z.string(),
   name: z.string(),
   affiliation: z.string().optional(),
+  period: TimePeriodSchema.optional().describe('Years covered by the metrics'),
   metrics: z.object({
     publications: z.number(),
     citations: z.number(),
@@ -44,6 +47,7 @@ export const InstitutionSchema = z.object({
   id: z.string(),
   name: z.string(),
   country: z.string(),
+  period: TimePeriodSchema.optional().describe('Years covered by the metrics'),
   metrics: z.object({
     publications: z.number(),
     citations: z.number(),
@@ -62,6 +66,7 @@ export const JournalSchema = z.object({
   id: z.string(),
   name: z.string(),
   publisher: z.string(),
+  period: TimePeriodSchema.optional().describe('Years covered by the metrics'),
   metrics: z.object({
     citesPerDoc: z.number(),
     sjr: z.number(), // SCImago Journal Rank
@@ -72,6 +77,79 @@ export const JournalSchema = z.object({
 
 export type Journal = z.infer<typeof JournalSchema>;
 
+/**
+ * Any SciVal entity
+ */
+export type Entity = Author | Institution | Journal;
+
+/**
+ * An entity found by name search, with its type and relevance
+ */
+export const SearchHitSchema = z.union([AuthorSchema, InstitutionSchema, JournalSchema]).and(z.object({
+  entityType: z.enum(['author', 'institution', 'journal']),
+  score: z.number().describe('Relevance from 0 to 1; 1 is an exact match on the name'),
+  matchedName: z.string().describe('The name or alias that matched, e.g. "MIT"')
+}));
+
+export type SearchHit = z.infer<typeof SearchHitSchema>;
+
+/**
+ * One page of a list query's results
+ */
+export interface Page<T> {
+  items: T[];
+  /** Results across all pages */
+  totalCount: number;
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Kinds of relationship between entities
+ * - affiliation: author (from) works at institution (to)
+ * - authorJournal: author (from) publishes in journal (to)
+ * - institutionJournal: institution (from) publishes in journal (to)
+ */
+export const RelationshipTypeSchema = z.enum(['affiliation', 'authorJournal', 'institutionJournal']);
+
+export type RelationshipType = z.infer<typeof RelationshipTypeSchema>;
+
+/**
+ * A link between two entities
+ */
+export const RelationshipSchema = z.object({
+  type: RelationshipTypeSchema,
+  fromId: z.string(),
+  toId: z.string(),
+  startYear: z.number().optional().describe('First year of the relationship (inclusive)'),
+  endYear: z.number().optional().describe('Last year of the relationship (inclusive); omitted if ongoing'),
+  publications: z.number().optional().describe('Publications linking the two entities')
+});
+
+export type Relationship = z.infer<typeof RelationshipSchema>;
+
+/**
+ * Entity types at each end of a relationship type
+ */
+export const relationshipEndpoints: Record<RelationshipType, { from: EntityType; to: EntityType }> = {
+  affiliation: { from: 'author', to: 'institution' },
+  authorJournal: { from: 'author', to: 'journal' },
+  institutionJournal: { from: 'institution', to: 'journal' }
+};
+
+/**
+ * Co-authored publications between two authors or two institutions in one year
+ */
+export const CollaborationSchema = z.object({
+  entityType: z.enum(['author', 'institution']),
+  entityIdA: z.string(),
+  entityIdB: z.string(),
+  year: z.number(),
+  publications: z.number().describe('Co-authored publications that year')
+});
+
+export type Collaboration = z.infer<typeof CollaborationSchema>;
+
 /**
  * Trend data point
  */
@@ -82,6 +160,85 @@ export const TrendPointSchema = z.object({
 
 export type TrendPoint = z.infer<typeof TrendPointSchema>;
 
+/**
+ * Trend series for one entity, keyed by metric name
+ */
+export type TrendSeries = Record<string, TrendPoint[]>;
+
+/**
+ * A trend series that is available for an entity
+ */
+export const TrendAvailabilitySchema = z.object({
+  metric: z.string(),
+  startYear: z.number(),
+  endYear: z.number(),
+  years: z.array(z.number())
+});
+
+export type TrendAvailability = z.infer<typeof TrendAvailabilitySchema>;
+
+/**
+ * Change in a trend series from the previous year
+ */
+export const YearOverYearChangeSchema = z.object({
+  year: z.number(),
+  value: z.number(),
+  change: z.number(),
+  percentChange: z.number().nullable().describe('Change relative to the previous year, in percent (null if that was 0)')
+});
+
+export type YearOverYearChange = z.infer<typeof YearOverYearChangeSchema>;
+
+/**
+ * A year whose change breaks from the rest of the series
+ */
+export const TrendAnomalySchema = z.object({
+  year: z.number(),
+  value: z.number(),
+  percentChange: z.number(),
+  expectedPercentChange: z.number().describe('Median year-over-year change of the series, in percent'),
+  score: z.number().describe('Robust z-score of the change (median absolute deviations from the median)'),
+  direction: z.enum(['drop', 'spike'])
+});
+
+export type TrendAnomaly = z.infer<typeof TrendAnomalySchema>;
+
+/**
+ * A one-sentence observation about a trend series, for display or citation
+ */
+export const TrendFindingSchema = z.object({
+  kind: z.enum(['growth', 'trend', 'peak', 'trough', 'anomaly']),
+  year: z.number().optional(),
+  statement: z.string()
+});
+
+export type TrendFinding = z.infer<typeof TrendFindingSchema>;
+
+/**
+ * Growth rates, trend line, extremes and anomalies of a trend series
+ */
+export const TrendInsightsSchema = z.object({
+  entity: z.object({
+    id: z.string(),
+    name: z.string()
+  }),
+  metric: z.string(),
+  first: TrendPointSchema,
+  last: TrendPointSchema,
+  change: z.number().describe('Last value minus first value'),
+  percentChange: z.number().nullable().describe('Change relative to the first value, in percent (null if that was 0)'),
+  cagr: z.number().nullable().describe('Compound annual growth rate, in percent (null unless both ends are positive)'),
+  slope: z.number().describe('Least-squares trend, in metric units per year'),
+  rSquared: z.number().describe('Share of the variance the trend line explains (0-1)'),
+  peak: TrendPointSchema,
+  trough: TrendPointSchema,
+  yearOverYear: z.array(YearOverYearChangeSchema),
+  anomalies: z.array(TrendAnomalySchema),
+  findings: z.array(TrendFindingSchema)
+});
+
+export type TrendInsights = z.infer<typeof TrendInsightsSchema>;
+
 /**
  * Comparison result
  */
@@ -101,3 +258,159 @@ export const ComparisonSchema = z.object({
 });
 
 export type Comparison = z.infer<typeof ComparisonSchema>;
+
+/**
+ * One entity's position on one metric within a compared group
+ */
+export const ComparisonCellSchema = z.object({
+  entityId: z.string(),
+  value: z.number(),
+  rank: z.number().describe('1 = best in the group, ties share a rank'),
+  deltaFromMean: z.number(),
+  deltaFromMedian: z.number(),
+  percentFromMean: z.number(),
+  percentFromMedian: z.number()
+});
+
+export type ComparisonCell = z.infer<typeof ComparisonCellSchema>;
+
+/**
+ * Comparison of N entities across M metrics
+ */
+export const ComparisonMatrixSchema = z.object({
+  entityType: z.enum(['author', 'institution', 'journal']),
+  entities: z.array(z.object({
+    id: z.string(),
+    name: z.string()
+  })),
+  metrics: z.array(z.object({
+    metric: z.string(),
+    mean: z.number(),
+    median: z.number(),
+    excludedEntityIds: z.array(z.string()).describe('Entities without a value for the metric, left out of its statistics and ranks'),
+    values: z.array(ComparisonCellSchema)
+  }))
+});
+
+export type ComparisonMatrix = z.infer<typeof ComparisonMatrixSchema>;
+
+/**
+ * An entity's standing against a peer group on one metric
+ */
+export const BenchmarkMetricSchema = z.object({
+  metric: z.string(),
+  value: z.number(),
+  peerMean: z.number(),
+  peerMedian: z.number(),
+  peerMin: z.number(),
+  peerMax: z.number(),
+  excludedPeers: z.number().describe('Peers without a value for the metric, left out of the peer statistics'),
+  rank: z.number().describe('Rank among the entity and its peers with a value, 1 = best'),
+  percentile: z.number().describe('Share of peers with a value that the entity outperforms (0-100)'),
+  deltaFromMean: z.number(),
+  percentFromMean: z.number()
+});
+
+export type BenchmarkMetric = z.infer<typeof BenchmarkMetricSchema>;
+
+/**
+ * Benchmark of an entity against a peer group
+ */
+export const BenchmarkSchema = z.object({
+  entity: z.object({
+    id: z.string(),
+    name: z.string()
+  }),
+  entityType: z.enum(['author', 'institution', 'journal']),
+  peerGroup: z.object({
+    name: z.string(),
+    peers: z.array(z.object({
+      id: z.string(),
+      name: z.string()
+    }))
+  }),
+  metrics: z.array(BenchmarkMetricSchema)
+});
+
+export type Benchmark = z.infer<typeof BenchmarkSchema>;
+
+/**
+ * Entities related to a given entity through one relationship type
+ */
+export const RelatedEntitiesSchema = z.object({
+  entity: z.object({
+    id: z.string(),
+    name: z.string()
+  }),
+  entityType: z.enum(['author', 'institution', 'journal']),
+  relatedType: z.enum(['author', 'institution', 'journal']),
+  relationship: RelationshipTypeSchema,
+  related: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    startYear: z.number().optional(),
+    endYear: z.number().optional(),
+    publications: z.number().optional()
+  })),
+  totalCount: z.number().describe('Related entities across all pages'),
+  nextCursor: z.string().nullable().describe('Pass as cursor to get the next page; null on the last page')
+});
+
+export type RelatedEntities = z.infer<typeof RelatedEntitiesSchema>;
+
+/**
+ * Collaboration graph around an entity
+ */
+export const CollaborationNetworkSchema = z.object({
+  center: z.string(),
+  entityType: z.enum(['author', 'institution']),
+  nodes: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    depth: z.number().describe('Hops from the center entity')
+  })),
+  edges: z.array(z.object({
+    source: z.string(),
+    target: z.string(),
+    weight: z.number().describe('Co-authored publications in the year range'),
+    firstYear: z.number(),
+    lastYear: z.number()
+  })),
+  truncated: z.boolean().describe('True if maxNodes cut the network short')
+});
+
+export type CollaborationNetwork = z.infer<typeof CollaborationNetworkSchema>;
+
+/**
+ * A cell of a query table: text, a number, or null where the row has no value
+ */
+export const QueryCellSchema = z.union([z.string(), z.number(), z.null()]);
+
+export type QueryCell = z.infer<typeof QueryCellSchema>;
+
+/**
+ * One page of the rows a declarative query produced, keyed by column
+ */
+export const QueryTableSchema = z.object({
+  columns: z.array(z.string()),
+  items: z.array(z.record(QueryCellSchema)),
+  totalCount: z.number().describe('Rows across all pages'),
+  nextCursor: z.string().nullable().describe('Pass as cursor to get the next page; null on the last page'),
+  plan: z.array(z.string()).describe('Steps the query ran, in order')
+});
+
+export type QueryTable = z.infer<typeof QueryTableSchema>;
+
+/**
+ * Summary statistics of one metric, one row per group of entities: the
+ * grouping dimension's value, then a column per statistic
+ */
+export const MetricAggregationSchema = z.object({
+  entityType: z.enum(['author', 'institution', 'journal']),
+  metric: z.string(),
+  groupBy: z.enum(['affiliation', 'country', 'publisher']).nullable().describe('Dimension rows are grouped by; null for a single row over all entities'),
+  columns: z.array(z.string()),
+  rows: z.array(z.record(QueryCellSchema)).describe('Statistics are null for groups without values for the metric')
+});
+
+export type MetricAggregation = z.infer<typeof MetricAggregationSchema>;